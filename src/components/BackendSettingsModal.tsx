@@ -0,0 +1,207 @@
+import { FC, useEffect, useState } from "react";
+import { Modal } from "react-bootstrap";
+import {
+    BackendSettings,
+    BackendStatus,
+    HostSettings,
+    ImageTransport,
+    checkBackendStatus,
+    isBackendReady,
+    loadBackendSettings,
+    saveBackendSettings,
+} from "../lib/backend";
+
+interface Props {
+    show: boolean;
+    onHide: () => void;
+    onSave: (settings: BackendSettings) => void;
+}
+
+export const BackendSettingsModal: FC<Props> = ({ show, onHide, onSave }) => {
+    const [settings, setSettings] = useState<BackendSettings>(loadBackendSettings);
+    const [status, setStatus] = useState<BackendStatus | undefined>(undefined);
+    const [testing, setTesting] = useState(false);
+
+    useEffect(() => {
+        if (show) {
+            setSettings(loadBackendSettings());
+            setStatus(undefined);
+        }
+    }, [show]);
+
+    const onTest = async () => {
+        setTesting(true);
+        setStatus(await checkBackendStatus(settings));
+        setTesting(false);
+    };
+
+    const updateExtraHost = (index: number, update: Partial<HostSettings>) => {
+        setSettings({
+            ...settings,
+            extraHosts: settings.extraHosts.map((host, i) => (i === index ? { ...host, ...update } : host)),
+        });
+    };
+
+    const removeExtraHost = (index: number) => {
+        setSettings({ ...settings, extraHosts: settings.extraHosts.filter((_, i) => i !== index) });
+    };
+
+    const addExtraHost = () => {
+        setSettings({
+            ...settings,
+            extraHosts: [...settings.extraHosts, { host: "", secure: false, imageTransport: settings.imageTransport }],
+        });
+    };
+
+    const onSaveClicked = () => {
+        saveBackendSettings(settings);
+        onSave(settings);
+        onHide();
+    };
+
+    return (
+        <Modal show={show} onHide={onHide}>
+            <Modal.Header closeButton>
+                <Modal.Title>Backend settings</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <div className="form-group">
+                    <label>ComfyUI host</label>
+                    <input
+                        className="form-control"
+                        placeholder="localhost:8188"
+                        value={settings.host}
+                        disabled={settings.mock}
+                        onChange={(e) => setSettings({ ...settings, host: e.target.value.trim() })}
+                    />
+                </div>
+                <div className="form-check">
+                    <input
+                        className="form-check-input"
+                        type="checkbox"
+                        id="backend-secure"
+                        checked={settings.secure}
+                        disabled={settings.mock}
+                        onChange={(e) => setSettings({ ...settings, secure: e.target.checked })}
+                    />
+                    <label className="form-check-label" htmlFor="backend-secure">
+                        Use HTTPS / WSS
+                    </label>
+                </div>
+                <div className="form-check">
+                    <input
+                        className="form-check-input"
+                        type="checkbox"
+                        id="backend-mock"
+                        checked={settings.mock}
+                        onChange={(e) => setSettings({ ...settings, mock: e.target.checked })}
+                    />
+                    <label className="form-check-label" htmlFor="backend-mock">
+                        Use offline mock backend
+                    </label>
+                    <small className="form-text text-muted">
+                        Generates placeholder images in the browser, for development without ComfyUI.
+                    </small>
+                </div>
+                <div className="form-group" style={{ marginTop: "16px" }}>
+                    <label>Image transport</label>
+                    <select
+                        className="form-control"
+                        value={settings.imageTransport}
+                        onChange={(e) =>
+                            setSettings({ ...settings, imageTransport: e.target.value as ImageTransport })
+                        }
+                    >
+                        <option value="base64">Embed in prompt (comfyui-tooling-nodes)</option>
+                        <option value="upload">Upload (stock LoadImage nodes)</option>
+                    </select>
+                    <small className="form-text text-muted">
+                        Uploading keeps large images out of the prompt and works without custom nodes.
+                    </small>
+                </div>
+                <div className="form-group">
+                    <label>Additional hosts</label>
+                    {settings.extraHosts.map((extraHost, i) => (
+                        <div key={i} style={{ display: "flex", alignItems: "center", marginBottom: "8px" }}>
+                            <input
+                                className="form-control"
+                                style={{ flex: 2 }}
+                                placeholder="otherhost:8188"
+                                value={extraHost.host}
+                                disabled={settings.mock}
+                                onChange={(e) => updateExtraHost(i, { host: e.target.value.trim() })}
+                            />
+                            &nbsp;
+                            <select
+                                className="form-control"
+                                style={{ flex: 1 }}
+                                value={extraHost.imageTransport}
+                                disabled={settings.mock}
+                                onChange={(e) =>
+                                    updateExtraHost(i, { imageTransport: e.target.value as ImageTransport })
+                                }
+                            >
+                                <option value="base64">Embed</option>
+                                <option value="upload">Upload</option>
+                            </select>
+                            &nbsp;
+                            <label className="form-check-label" title="Use HTTPS / WSS">
+                                <input
+                                    type="checkbox"
+                                    checked={extraHost.secure}
+                                    disabled={settings.mock}
+                                    onChange={(e) => updateExtraHost(i, { secure: e.target.checked })}
+                                />
+                                &nbsp;TLS
+                            </label>
+                            &nbsp;
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                title="Remove host"
+                                onClick={() => removeExtraHost(i)}
+                            >
+                                <i className="fas fa-trash"></i>
+                            </button>
+                        </div>
+                    ))}
+                    <div>
+                        <button className="btn btn-sm btn-secondary" disabled={settings.mock} onClick={addExtraHost}>
+                            <i className="fas fa-plus"></i>&nbsp; Add host
+                        </button>
+                    </div>
+                    <small className="form-text text-muted">
+                        Generations go to the least busy host that has the workflow's nodes and models, and move
+                        to another host if theirs goes offline. Variations and upscale tiles run side by side.
+                    </small>
+                </div>
+                <div className="form-group">
+                    <label>Timelapse API URL</label>
+                    <input
+                        className="form-control"
+                        placeholder="http://localhost:3000/api"
+                        value={settings.timelapseApiUrl}
+                        onChange={(e) =>
+                            setSettings({ ...settings, timelapseApiUrl: e.target.value.trim() })
+                        }
+                    />
+                </div>
+                {status && (
+                    <small className={`form-text ${isBackendReady(status, settings) ? "text-success" : "text-danger"}`}>
+                        {!status.connected && `Could not connect: ${status.error}`}
+                        {status.connected && !isBackendReady(status, settings) &&
+                            "Connected, but the ETN_LoadImageBase64 node is missing. Install comfyui-tooling-nodes or upload images instead."}
+                        {isBackendReady(status, settings) && "Connected"}
+                    </small>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <button className="btn btn-secondary" disabled={testing} onClick={onTest}>
+                    Test connection
+                </button>
+                <button className="btn btn-primary" disabled={!settings.host && !settings.mock} onClick={onSaveClicked}>
+                    Save
+                </button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
@@ -0,0 +1,118 @@
+import { FC, useEffect, useState } from "react";
+import {
+    BackendStatus,
+    checkBackendStatus,
+    getBackend,
+    getBackends,
+    isBackendReady,
+    loadBackendSettings,
+} from "../lib/backend";
+import { BackendHealth, backendPool } from "../lib/backendpool";
+import { BackendSettingsModal } from "./BackendSettingsModal";
+
+const pollInterval = 10000;
+
+function statusText(status: BackendStatus | undefined): string {
+    if (!status) {
+        return "Checking backend...";
+    }
+    if (!status.connected) {
+        return "Backend offline";
+    }
+    if (!isBackendReady(status)) {
+        return "ETN_LoadImageBase64 missing";
+    }
+    return loadBackendSettings().mock ? "Mock backend" : "Backend connected";
+}
+
+function statusColor(status: BackendStatus | undefined): string {
+    if (!status) {
+        return "#AAAAAA";
+    }
+    if (!status.connected) {
+        return "#DC3545";
+    }
+    return isBackendReady(status) ? "#28A745" : "#FFC107";
+}
+
+// one line per backend, for the tooltip
+function describePool(pool: BackendHealth[]): string {
+    return pool
+        .map((health) =>
+            health.online
+                ? `${health.url}: ${health.queueDepth} queued, ${backendPool.getAssigned(health.url)} from here`
+                : `${health.url}: offline`
+        )
+        .join("\n");
+}
+
+// Polls the backend and opens the settings dialog when clicked
+export const BackendStatusIndicator: FC = () => {
+    const [status, setStatus] = useState<BackendStatus | undefined>(undefined);
+    // only checked when there are additional hosts
+    const [pool, setPool] = useState<BackendHealth[] | undefined>(undefined);
+    const [showSettings, setShowSettings] = useState(false);
+    // bumped when the settings change, to check the new backend right away
+    const [settingsVersion, setSettingsVersion] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        const poll = () => {
+            checkBackendStatus(loadBackendSettings()).then((result) => {
+                if (!cancelled) {
+                    setStatus(result);
+                }
+            });
+            if (getBackends().length > 1) {
+                backendPool.checkAll().then((result) => {
+                    if (!cancelled) {
+                        setPool(result);
+                    }
+                });
+            } else {
+                setPool(undefined);
+            }
+        };
+        poll();
+        const interval = window.setInterval(poll, pollInterval);
+        return () => {
+            cancelled = true;
+            window.clearInterval(interval);
+        };
+    }, [settingsVersion]);
+
+    const online = pool?.filter((health) => health.online).length;
+    let text = statusText(status);
+    let color = statusColor(status);
+    if (pool && online !== undefined) {
+        text = `${online}/${pool.length} backends online`;
+        if (online === 0) {
+            color = "#DC3545";
+        } else if (online < pool.length) {
+            color = "#FFC107";
+        }
+    }
+
+    return (
+        <>
+            <button
+                className="btn btn-sm btn-link"
+                title={pool ? describePool(pool) : status?.error || getBackend().url}
+                onClick={() => setShowSettings(true)}
+            >
+                <i className="fas fa-circle" style={{ color }}></i>
+                &nbsp; {text} &nbsp;
+                <i className="fas fa-cog"></i>
+            </button>
+            <BackendSettingsModal
+                show={showSettings}
+                onHide={() => setShowSettings(false)}
+                onSave={() => {
+                    setStatus(undefined);
+                    setPool(undefined);
+                    setSettingsVersion(settingsVersion + 1);
+                }}
+            />
+        </>
+    );
+};
@@ -4,13 +4,15 @@ import { Modal } from "react-bootstrap";
 interface Props extends PropsWithChildren<any>{
     show: boolean;
     title?: string;
+    // makes the modal dismissable
+    onHide?: () => void;
 }
 
 // Show modal with child contents
-export const BusyModal: FC<Props> = ({ show, title, children }) => {
+export const BusyModal: FC<Props> = ({ show, title, onHide, children }) => {
     return (
-        <Modal show={show} backdrop="static" keyboard={false}>
-            <Modal.Header closeButton>
+        <Modal show={show} backdrop="static" keyboard={false} onHide={onHide}>
+            <Modal.Header closeButton={!!onHide}>
                 <Modal.Title>{title || "Processing"}</Modal.Title>
             </Modal.Header>
             <Modal.Body>
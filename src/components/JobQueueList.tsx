@@ -0,0 +1,88 @@
+import { FC } from "react";
+import { Job, jobQueue, useJobs } from "../lib/jobqueue";
+import { ProgressBar } from "./ProgressBar";
+
+const statusLabels: { [key in Job["status"]]: string } = {
+    pending: "Queued",
+    running: "Running",
+    completed: "Done",
+    failed: "Failed",
+    cancelled: "Cancelled",
+};
+
+export const JobQueueList: FC = () => {
+    const jobs = useJobs();
+
+    if (jobs.length === 0) {
+        return null;
+    }
+
+    const hasFinished = jobs.find(
+        (job) => job.status !== "pending" && job.status !== "running"
+    );
+
+    return (
+        <div className="form-group" style={{ marginLeft: "16px" }}>
+            <label>Queue</label>
+            {jobs.map((job) => (
+                <div key={job.id} style={{ marginBottom: "8px" }}>
+                    <div style={{ display: "flex", alignItems: "center" }}>
+                        <small
+                            style={{
+                                flex: 1,
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                                whiteSpace: "nowrap",
+                            }}
+                            title={job.error || job.name}
+                        >
+                            {statusLabels[job.status]} - {job.name}
+                        </small>
+                        {(job.status === "pending" || job.status === "running") && (
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                title="Cancel"
+                                onClick={() => jobQueue.cancel(job.id)}
+                            >
+                                <i className="fas fa-stop"></i>
+                            </button>
+                        )}
+                        {(job.status === "failed" || job.status === "cancelled") && (
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                title="Retry"
+                                onClick={() => jobQueue.retry(job.id)}
+                            >
+                                <i className="fas fa-redo"></i>
+                            </button>
+                        )}
+                        {job.status !== "running" && (
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                title="Remove"
+                                onClick={() => jobQueue.remove(job.id)}
+                            >
+                                <i className="fas fa-times"></i>
+                            </button>
+                        )}
+                    </div>
+                    {job.status === "running" && <ProgressBar progress={job.progress} />}
+                    {job.status === "running" && job.executingNode && (
+                        <small className="text-muted">{job.executingNode}</small>
+                    )}
+                    {job.status === "failed" && (
+                        <small className="text-danger">{job.error}</small>
+                    )}
+                </div>
+            ))}
+            {hasFinished && (
+                <button
+                    className="btn btn-sm btn-link"
+                    onClick={() => jobQueue.clearFinished()}
+                >
+                    Clear finished
+                </button>
+            )}
+        </div>
+    );
+};
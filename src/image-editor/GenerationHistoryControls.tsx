@@ -0,0 +1,125 @@
+import { FC, useEffect, useState } from "react";
+import { Renderer } from "./renderer";
+import { GenerationHistoryEntry, useGenerationHistory } from "./generation-history";
+
+interface Props {
+    renderer: Renderer;
+}
+
+function describeEntry(entry: GenerationHistoryEntry): string {
+    const lines = [entry.name];
+    if (entry.metadata) {
+        const { negativePrompt, seed, denoise, model } = entry.metadata;
+        lines.push(`Seed: ${seed}`, `Denoise: ${denoise}`);
+        if (model) {
+            lines.push(`Model: ${model}`);
+        }
+        if (negativePrompt) {
+            lines.push(`Negative prompt: ${negativePrompt}`);
+        }
+    }
+    return lines.join("\n");
+}
+
+export const GenerationHistoryControls: FC<Props> = ({ renderer }) => {
+    const entries = useGenerationHistory(renderer.generationHistory);
+    const [comparingId, setComparingId] = useState<number | undefined>(undefined);
+    const [split, setSplit] = useState(0.5);
+    const comparing = entries.find((entry) => entry.id === comparingId);
+
+    useEffect(() => {
+        renderer.setGenerationComparison(comparing?.id, split);
+    }, [renderer, comparing, split]);
+
+    useEffect(() => {
+        // hide the comparison when the panel is closed
+        return () => renderer.setGenerationComparison(undefined);
+    }, [renderer]);
+
+    const onToggleApplied = (entry: GenerationHistoryEntry) => {
+        try {
+            if (entry.applied) {
+                renderer.revertGeneration(entry.id);
+            } else {
+                renderer.reapplyGeneration(entry.id);
+            }
+        } catch (err) {
+            console.error("Failed to update generation", err);
+            alert(`${err}`);
+        }
+    };
+
+    if (entries.length === 0) {
+        return (
+            <div className="form-group">
+                <small className="form-text text-muted">Generations you keep will be listed here.</small>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            {entries.map((entry) => (
+                <div key={entry.id} className="form-group" style={{ marginBottom: "8px" }}>
+                    <div style={{ display: "flex", alignItems: "center" }}>
+                        <small
+                            style={{
+                                flex: 1,
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                                whiteSpace: "nowrap",
+                                textDecoration: entry.applied ? "none" : "line-through",
+                            }}
+                            title={describeEntry(entry)}
+                        >
+                            {new Date(entry.timestamp).toLocaleTimeString()} - {entry.name}
+                        </small>
+                        <button
+                            className={`btn btn-sm ${entry.id === comparingId ? "btn-primary" : "btn-secondary"}`}
+                            title="Compare before and after"
+                            onClick={() => setComparingId(entry.id === comparingId ? undefined : entry.id)}
+                        >
+                            <i className="fas fa-columns"></i>
+                        </button>
+                        &nbsp;
+                        <button
+                            className="btn btn-sm btn-secondary"
+                            title={entry.applied ? "Revert this generation" : "Re-apply this generation"}
+                            onClick={() => onToggleApplied(entry)}
+                        >
+                            <i className={`fas fa-${entry.applied ? "undo" : "redo"}`}></i>
+                        </button>
+                        &nbsp;
+                        <button
+                            className="btn btn-sm btn-secondary"
+                            title="Remove from history"
+                            onClick={() => renderer.generationHistory.remove(entry.id)}
+                        >
+                            <i className="fas fa-times"></i>
+                        </button>
+                    </div>
+                </div>
+            ))}
+            {comparing && (
+                <div className="form-group">
+                    <label style={{ width: "100%" }}>
+                        <small>Before</small>
+                        <small style={{ float: "right" }}>After</small>
+                    </label>
+                    <input
+                        type="range"
+                        className="form-control-range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={split}
+                        onChange={(e) => setSplit(parseFloat(e.target.value))}
+                    />
+                </div>
+            )}
+            <small className="form-text text-muted">
+                Reverting only restores pixels that haven't been painted over since, so later edits are kept.
+            </small>
+        </>
+    );
+};
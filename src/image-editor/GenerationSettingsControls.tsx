@@ -0,0 +1,118 @@
+import { FC, useEffect, useState } from "react";
+import { useCache } from "../lib/cache";
+import { ComfyFetcher } from "../lib/comfyfetcher";
+import { getBackend } from "../lib/backend";
+import { ComfyObjectInfo } from "../lib/objectinfo";
+import { LoraControls } from "./LoraControls";
+import {
+    GenerationSettings,
+    defaultGenerationSettings,
+    generationSettingsKey,
+} from "../lib/generationsettings";
+
+interface Options {
+    models: string[];
+    loras: string[];
+    samplers: string[];
+    schedulers: string[];
+}
+
+async function fetchOptions(): Promise<Options> {
+    const fetcher = new ComfyFetcher(getBackend());
+    return getOptions(await fetcher.fetch_object_info());
+}
+
+function getOptions(objectInfo: ComfyObjectInfo): Options {
+    return {
+        models: objectInfo.CheckpointLoaderSimple.input.required.ckpt_name[0],
+        loras: objectInfo.LoraLoader.input.required.lora_name[0],
+        samplers: objectInfo.KSampler.input.required.sampler_name[0],
+        schedulers: objectInfo.KSampler.input.required.scheduler[0],
+    };
+}
+
+export const GenerationSettingsControls: FC = () => {
+    const [settings, setSettings] = useCache<GenerationSettings>(
+        generationSettingsKey,
+        defaultGenerationSettings
+    );
+    const [options, setOptions] = useState<Options | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const loadOptions = async () => {
+        setLoading(true);
+        try {
+            setOptions(await fetchOptions());
+        } catch (err) {
+            console.error("Failed to load object info", err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchOptions()
+            .then(setOptions)
+            .catch((err) => console.error("Failed to load object info", err));
+    }, []);
+
+    const update = (changes: Partial<GenerationSettings>) => {
+        setSettings({ ...settings, ...changes });
+    };
+
+    const renderSelect = (
+        label: string,
+        value: string,
+        choices: string[],
+        onChange: (value: string) => void
+    ) => (
+        <div className="form-group">
+            <label>{label}</label>
+            <select
+                className="form-control"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+            >
+                <option value="">Workflow default</option>
+                {choices.map((choice) => (
+                    <option key={choice} value={choice}>
+                        {choice}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+
+    if (!options) {
+        return (
+            <div className="form-group">
+                <button
+                    className="btn btn-secondary"
+                    disabled={loading}
+                    onClick={loadOptions}
+                >
+                    <i className="fas fa-sync"></i>&nbsp; Load models from backend
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            {renderSelect("Checkpoint", settings.model, options.models, (model) =>
+                update({ model })
+            )}
+            {renderSelect("Sampler", settings.sampler, options.samplers, (sampler) =>
+                update({ sampler })
+            )}
+            {renderSelect("Scheduler", settings.scheduler, options.schedulers, (scheduler) =>
+                update({ scheduler })
+            )}
+            <LoraControls
+                loras={settings.loras}
+                availableLoras={options.loras}
+                onChange={(loras) => update({ loras })}
+            />
+        </>
+    );
+};
@@ -11,6 +11,12 @@ import {
 } from "./pencil-tool";
 import { SmudgeTool, SmudgeControls } from "./smudge-tool";
 import { ImportExportControls } from "./imagetool";
+import { AITool, AIControls } from "./ai-tool";
+import { LiveGenerator, LivePreview } from "./live-generator";
+import { LivePreviewPane } from "./LivePreviewPane";
+import { useCache } from "../lib/cache";
+import { JobQueueList } from "../components/JobQueueList";
+import { BackendStatusIndicator } from "../components/BackendStatusIndicator";
 
 interface CanPreventDefault {
     preventDefault: () => void;
@@ -45,6 +51,21 @@ export const ImageEditor = () => {
                 );
             },
         },
+        {
+            name: "AI",
+            iconClass: "fas fa-robot",
+            constructor: (r: Renderer) => new AITool(r),
+            defaultArgs: {},
+            renderControls: (t: Tool, renderer: Renderer) => {
+                return (
+                    <AIControls
+                        tool={t as AITool}
+                        renderer={renderer}
+                        key={"ai-controls"}
+                    />
+                );
+            },
+        },
         // {
         //     name: "smudge",
         //     // finger icon
@@ -83,6 +104,11 @@ export const ImageEditor = () => {
     const [toolConfig, setToolConfig] = useState<ToolConfig | null>(null);
     const [canUndo, setCanUndo] = useState(false);
     const [canRedo, setCanRedo] = useState(false);
+    const [showSelectionControls, setShowSelectionControls] = useState(false);
+    const [liveMode, setLiveMode] = useCache("liveMode", false);
+    const [liveGenerator, setLiveGenerator] = useState<LiveGenerator | null>(null);
+    const [livePreview, setLivePreview] = useState<LivePreview | undefined>(undefined);
+    const [liveProgress, setLiveProgress] = useState<number | undefined>(undefined);
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -94,6 +120,8 @@ export const ImageEditor = () => {
                 }
             }
             const newTool = toolconfig.constructor(renderer);
+            setShowSelectionControls(false);
+            newTool.onShowSelectionControls(setShowSelectionControls);
             setTool(newTool);
             setToolConfig(toolconfig);
             // newTool.onSaveImage((encodedImage) => {
@@ -109,8 +137,6 @@ export const ImageEditor = () => {
             const onSnapshot = ( ) => {
                 setCanUndo(renderer.canUndo());
                 setCanRedo(renderer.canRedo());
-
-                // TODO: get image data as jpg with overlay included, submit to backend
             };
             renderer.addSnapshotListener(onSnapshot);
             return () => {
@@ -119,6 +145,41 @@ export const ImageEditor = () => {
         }
     }, [renderer]);
 
+    // live mode submits the selection to the backend after every snapshot
+    useEffect(() => {
+        if (renderer && liveMode) {
+            const generator = new LiveGenerator(renderer);
+            generator.onPreview(setLivePreview);
+            generator.onProgress(setLiveProgress);
+            renderer.addSnapshotListener(generator.onSnapshot);
+            setLiveGenerator(generator);
+            return () => {
+                renderer.removeSnapshotListener(generator.onSnapshot);
+                generator.cancel();
+                setLiveGenerator(null);
+                setLivePreview(undefined);
+            };
+        }
+    }, [renderer, liveMode]);
+
+    useEffect(() => {
+        if (tool) {
+            // typing in the controls shouldn't drive the tool
+            const isTyping = (e: KeyboardEvent) =>
+                e.target instanceof HTMLInputElement ||
+                e.target instanceof HTMLTextAreaElement ||
+                e.target instanceof HTMLSelectElement;
+            const onKeyDown = (e: KeyboardEvent) => !isTyping(e) && tool.onKeyDown(e);
+            const onKeyUp = (e: KeyboardEvent) => !isTyping(e) && tool.onKeyUp(e);
+            window.addEventListener("keydown", onKeyDown);
+            window.addEventListener("keyup", onKeyUp);
+            return () => {
+                window.removeEventListener("keydown", onKeyDown);
+                window.removeEventListener("keyup", onKeyUp);
+            };
+        }
+    }, [tool]);
+
     useEffect(() => {
         if (canvasRef.current) {
             const listener = (e: WheelEvent) => {
@@ -200,6 +261,9 @@ export const ImageEditor = () => {
                 <div className="col-12">
                     <h1 style={{ fontSize: "20px", marginTop: "8px", textAlign: "left" }}>
                         &nbsp; SmartDraw Prototype
+                        <span style={{ float: "right" }}>
+                            <BackendStatusIndicator />
+                        </span>
                     </h1>
                 </div>
             </div>
@@ -229,6 +293,18 @@ export const ImageEditor = () => {
                                     )}
                                 </>
                             )}
+                            <div className="form-check" style={{ marginLeft: "16px", marginBottom: "8px" }}>
+                                <input
+                                    className="form-check-input"
+                                    type="checkbox"
+                                    id="live-mode"
+                                    checked={liveMode}
+                                    onChange={(e) => setLiveMode(e.target.checked)}
+                                />
+                                <label className="form-check-label" htmlFor="live-mode">
+                                    Live mode
+                                </label>
+                            </div>
                             {(canRedo || canUndo) && (
                                 <div className="form-group">
                                     <div className="btn-group">
@@ -254,71 +330,101 @@ export const ImageEditor = () => {
                                     </div>
                                 </div>
                             )}
+                            <JobQueueList />
                         </>
                     )}
                 </div>
                 <div className="col-lg-9">
-                    <div style={{ verticalAlign: "middle" }}>
-                        <div>
-                            <canvas
-                                style={{
-                                    cursor: "none",
-                                    touchAction: "none",
-                                    userSelect: "none",
-                                }}
-                                width={768}
-                                height={512}
-                                ref={canvasRef}
-                                className="image-editor-canvas"
-                                onMouseDown={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onMouseDown(e)
-                                }
-                                onMouseMove={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onMouseMove(e)
-                                }
-                                onMouseUp={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onMouseUp(e)
-                                }
-                                onMouseLeave={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onMouseLeave(e)
-                                }
-                                onTouchStart={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onTouchStart(e)
-                                }
-                                onTouchMove={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onTouchMove(e)
-                                }
-                                onTouchEnd={(e) =>
-                                    preventDefault(e) &&
-                                    tool &&
-                                    tool.onTouchEnd(e)
-                                }
-                                onPointerMove={(e) =>
-                                    tool &&
-                                    tool.onPointerMove(e)
-                                }
-                                onPointerDown={(e) =>
-                                    tool &&
-                                    tool.onPointerDown(e)
-                                }
-                                onPointerUp={(e) =>
-                                    tool &&
-                                    tool.onPointerUp(e)
-                                }
-                            ></canvas>
+                    <div className="row">
+                        <div className={liveMode ? "col-md-8" : "col-md-12"} style={{ verticalAlign: "middle" }}>
+                            <div>
+                                <canvas
+                                    style={{
+                                        cursor: "none",
+                                        touchAction: "none",
+                                        userSelect: "none",
+                                    }}
+                                    width={768}
+                                    height={512}
+                                    ref={canvasRef}
+                                    className="image-editor-canvas"
+                                    onMouseDown={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onMouseDown(e)
+                                    }
+                                    onMouseMove={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onMouseMove(e)
+                                    }
+                                    onMouseUp={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onMouseUp(e)
+                                    }
+                                    onMouseLeave={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onMouseLeave(e)
+                                    }
+                                    onTouchStart={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onTouchStart(e)
+                                    }
+                                    onTouchMove={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onTouchMove(e)
+                                    }
+                                    onTouchEnd={(e) =>
+                                        preventDefault(e) &&
+                                        tool &&
+                                        tool.onTouchEnd(e)
+                                    }
+                                    onPointerMove={(e) =>
+                                        tool &&
+                                        tool.onPointerMove(e)
+                                    }
+                                    onPointerDown={(e) =>
+                                        tool &&
+                                        tool.onPointerDown(e)
+                                    }
+                                    onPointerUp={(e) =>
+                                        tool &&
+                                        tool.onPointerUp(e)
+                                    }
+                                ></canvas>
+                                {tool && showSelectionControls && (
+                                    <>
+                                        <button
+                                            className="btn btn-primary canvas-select-left"
+                                            onClick={() => tool.select("left")}
+                                        >
+                                            <i className="fas fa-chevron-left"></i>
+                                        </button>
+                                        <button
+                                            className="btn btn-primary canvas-select-right"
+                                            onClick={() => tool.select("right")}
+                                        >
+                                            <i className="fas fa-chevron-right"></i>
+                                        </button>
+                                    </>
+                                )}
+                            </div>
                         </div>
+                        {liveMode && liveGenerator && (
+                            <div className="col-md-4">
+                                <LivePreviewPane
+                                    preview={livePreview}
+                                    progress={liveProgress}
+                                    isCurrent={(preview) => liveGenerator.isCurrent(preview)}
+                                    onCommit={(preview) => liveGenerator.commit(preview)}
+                                    onDiscard={() => setLivePreview(undefined)}
+                                />
+                            </div>
+                        )}
                     </div>
                     <div className="row">
                         <button
@@ -0,0 +1,54 @@
+import { FC } from "react";
+import { LivePreview } from "./live-generator";
+import { ProgressBar } from "../components/ProgressBar";
+
+interface Props {
+    preview: LivePreview | undefined;
+    progress: number | undefined;
+    // false once the prompt or selection has changed since the preview was generated
+    isCurrent: (preview: LivePreview) => boolean;
+    onCommit: (preview: LivePreview) => void;
+    onDiscard: () => void;
+}
+
+export const LivePreviewPane: FC<Props> = ({ preview, progress, isCurrent, onCommit, onDiscard }) => {
+    const current = !preview || isCurrent(preview);
+    return (
+        <div style={{ textAlign: "left" }}>
+            <h4>Live Preview</h4>
+            {preview ? (
+                <img
+                    src={preview.dataUrl}
+                    alt="Live preview"
+                    style={{ width: "100%", border: "1px solid white" }}
+                />
+            ) : (
+                <p className="text-muted">Draw on the canvas to generate a preview.</p>
+            )}
+            {progress !== undefined && <ProgressBar progress={progress} />}
+            {preview && (
+                <div className="form-group" style={{ marginTop: "16px" }}>
+                    <button
+                        className="btn btn-primary"
+                        onClick={() => onCommit(preview)}
+                    >
+                        <i className={`fas fa-${current ? "check" : "sync"}`}></i>&nbsp;
+                        {current ? "Commit" : "Regenerate"}
+                    </button>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={onDiscard}
+                        style={{ marginLeft: "8px" }}
+                    >
+                        Discard
+                    </button>
+                    {!current && (
+                        <small className="form-text text-muted">
+                            The prompt or selection changed since this preview was generated.
+                        </small>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,126 @@
+import { FC } from "react";
+import { SelectedLora } from "../lib/loras";
+
+interface Props {
+    loras: SelectedLora[];
+    availableLoras: string[];
+    onChange: (loras: SelectedLora[]) => void;
+}
+
+// LoRAs are applied in list order, so the list can be reordered
+export const LoraControls: FC<Props> = ({ loras, availableLoras, onChange }) => {
+    const unusedLoras = availableLoras.filter(
+        (lora) => !loras.find((selected) => selected.name === lora)
+    );
+
+    const updateLora = (index: number, changes: Partial<SelectedLora>) => {
+        onChange(loras.map((lora, i) => (i === index ? { ...lora, ...changes } : lora)));
+    };
+
+    const moveLora = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= loras.length) {
+            return;
+        }
+        const result = [...loras];
+        [result[index], result[target]] = [result[target], result[index]];
+        onChange(result);
+    };
+
+    const renderStrength = (
+        label: string,
+        value: number,
+        disabled: boolean,
+        onStrengthChange: (value: number) => void
+    ) => (
+        <>
+            <small>
+                {label}: {value}
+            </small>
+            <input
+                type="range"
+                className="form-control-range"
+                min="-2"
+                max="2"
+                step="0.05"
+                value={value}
+                disabled={disabled}
+                onChange={(e) => onStrengthChange(parseFloat(e.target.value))}
+            />
+        </>
+    );
+
+    return (
+        <div className="form-group">
+            <label>LoRAs</label>
+            {loras.map((lora, i) => (
+                <div key={lora.name} style={{ marginBottom: "8px" }}>
+                    <div style={{ display: "flex", alignItems: "center" }}>
+                        <input
+                            type="checkbox"
+                            checked={lora.enabled}
+                            title="Enabled"
+                            onChange={(e) => updateLora(i, { enabled: e.target.checked })}
+                        />
+                        <small
+                            style={{
+                                flex: 1,
+                                marginLeft: "4px",
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                            }}
+                        >
+                            {lora.name}
+                        </small>
+                        <div className="btn-group">
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                disabled={i === 0}
+                                onClick={() => moveLora(i, -1)}
+                            >
+                                <i className="fas fa-arrow-up"></i>
+                            </button>
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                disabled={i === loras.length - 1}
+                                onClick={() => moveLora(i, 1)}
+                            >
+                                <i className="fas fa-arrow-down"></i>
+                            </button>
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                onClick={() => onChange(loras.filter((_, j) => j !== i))}
+                            >
+                                <i className="fas fa-times"></i>
+                            </button>
+                        </div>
+                    </div>
+                    {renderStrength("Model", lora.modelStrength, !lora.enabled, (modelStrength) =>
+                        updateLora(i, { modelStrength })
+                    )}
+                    {renderStrength("CLIP", lora.clipStrength, !lora.enabled, (clipStrength) =>
+                        updateLora(i, { clipStrength })
+                    )}
+                </div>
+            ))}
+            <select
+                className="form-control"
+                value=""
+                onChange={(e) =>
+                    e.target.value &&
+                    onChange([
+                        ...loras,
+                        { name: e.target.value, modelStrength: 1, clipStrength: 1, enabled: true },
+                    ])
+                }
+            >
+                <option value="">Add LoRA...</option>
+                {unusedLoras.map((lora) => (
+                    <option key={lora} value={lora}>
+                        {lora}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+};
@@ -0,0 +1,162 @@
+import React, { FC, useState } from "react";
+import { PromptEntry, promptLibrary, usePromptEntries } from "../lib/promptlibrary";
+
+// only the most recent matches are listed, to keep the panel short
+const maxVisibleEntries = 50;
+
+interface Props {
+    onApply: (entry: PromptEntry) => void;
+    onApplyNegativePrompt: (negativePrompt: string) => void;
+}
+
+function matches(entry: PromptEntry, search: string): boolean {
+    const text = `${entry.prompt}\n${entry.negativePrompt}\n${entry.model}`.toLowerCase();
+    return search
+        .toLowerCase()
+        .split(/\s+/)
+        .every((word) => text.includes(word));
+}
+
+export const PromptLibraryControls: FC<Props> = ({ onApply, onApplyNegativePrompt }) => {
+    const entries = usePromptEntries();
+    const [search, setSearch] = useState("");
+    const [presetsOnly, setPresetsOnly] = useState(false);
+
+    const visibleEntries = entries
+        .filter((entry) => (!presetsOnly || entry.starred) && matches(entry, search))
+        .slice(0, maxVisibleEntries);
+
+    const onImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = event.target.files;
+        if (!files || files.length === 0) {
+            return;
+        }
+        const file = files[0];
+        event.target.value = "";
+        try {
+            const added = await promptLibrary.importPresets(await file.text());
+            alert(`Imported ${added} preset${added === 1 ? "" : "s"}`);
+        } catch (err) {
+            console.error("Failed to import presets", err);
+            alert(`Failed to import presets: ${err}`);
+        }
+    };
+
+    const onExport = () => {
+        promptLibrary.exportPresets().catch((err) => {
+            console.error("Failed to export presets", err);
+            alert(`Failed to export presets: ${err}`);
+        });
+    };
+
+    const onToggleStarred = (entry: PromptEntry) => {
+        promptLibrary.setStarred(entry, !entry.starred).catch((err) => {
+            console.error("Failed to update preset", err);
+            alert(`Failed to update preset: ${err}`);
+        });
+    };
+
+    const onRemove = (entry: PromptEntry) => {
+        promptLibrary.remove(entry.id).catch((err) => {
+            console.error("Failed to delete prompt", err);
+            alert(`Failed to delete prompt: ${err}`);
+        });
+    };
+
+    return (
+        <>
+            <div className="form-group">
+                <input
+                    className="form-control"
+                    placeholder="Search prompts"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+            </div>
+            <div className="form-check" style={{ marginBottom: "8px" }}>
+                <input
+                    className="form-check-input"
+                    type="checkbox"
+                    id="prompt-library-presets-only"
+                    checked={presetsOnly}
+                    onChange={(e) => setPresetsOnly(e.target.checked)}
+                />
+                <label className="form-check-label" htmlFor="prompt-library-presets-only">
+                    Presets only
+                </label>
+            </div>
+            {visibleEntries.length === 0 && (
+                <small className="form-text text-muted">
+                    {entries.length === 0
+                        ? "Prompts you generate with are recorded here. Star one to keep it as a preset."
+                        : "No matching prompts."}
+                </small>
+            )}
+            {visibleEntries.map((entry) => (
+                <div key={entry.id} style={{ display: "flex", alignItems: "center", marginBottom: "4px" }}>
+                    <button
+                        className="btn btn-sm btn-link"
+                        title={entry.starred ? "Remove from presets" : "Save as preset"}
+                        onClick={() => onToggleStarred(entry)}
+                    >
+                        <i className={`${entry.starred ? "fas" : "far"} fa-star`}></i>
+                    </button>
+                    <small
+                        style={{
+                            flex: 1,
+                            overflow: "hidden",
+                            textOverflow: "ellipsis",
+                            whiteSpace: "nowrap",
+                        }}
+                        title={
+                            `${entry.prompt}\n\nNegative: ${entry.negativePrompt}\n` +
+                            `Seed ${entry.seed}, denoise ${Math.round(entry.denoise * 100)}%` +
+                            `${entry.model ? `, ${entry.model}` : ""}\n` +
+                            new Date(entry.timestamp).toLocaleString()
+                        }
+                    >
+                        {entry.prompt || "(no prompt)"}
+                    </small>
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        title="Use this prompt and its settings"
+                        onClick={() => onApply(entry)}
+                    >
+                        <i className="fas fa-check"></i>
+                    </button>
+                    &nbsp;
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        title="Use only the negative prompt"
+                        onClick={() => onApplyNegativePrompt(entry.negativePrompt)}
+                    >
+                        <i className="fas fa-minus-circle"></i>
+                    </button>
+                    &nbsp;
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        title="Delete"
+                        onClick={() => onRemove(entry)}
+                    >
+                        <i className="fas fa-trash"></i>
+                    </button>
+                </div>
+            ))}
+            <div className="form-group" style={{ marginTop: "8px" }}>
+                <button className="btn btn-secondary" onClick={onExport}>
+                    <i className="fas fa-file-export"></i>&nbsp; Export presets
+                </button>
+                &nbsp;
+                <label className="btn btn-secondary" style={{ display: "inline" }}>
+                    <i className="fas fa-file-import"></i>&nbsp; Import presets
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: "none" }}
+                        onChange={onImport}
+                    />
+                </label>
+            </div>
+        </>
+    );
+};
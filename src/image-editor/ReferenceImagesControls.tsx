@@ -0,0 +1,148 @@
+import React, { FC, useEffect, useState } from "react";
+import loadImage from "blueimp-load-image";
+import { Renderer } from "./renderer";
+import { useCache } from "../lib/cache";
+import { createEncodedThumbnail } from "../lib/imageutil";
+import {
+    ReferenceImageSettings,
+    defaultReferenceImageSettings,
+    referenceImageSettingsKey,
+} from "../lib/generationsettings";
+
+interface Props {
+    renderer: Renderer;
+    // whether the current workflow has an IP-Adapter to feed
+    supported: boolean;
+}
+
+function createThumbnails(renderer: Renderer): Promise<string[]> {
+    return Promise.all(renderer.getEncodedReferenceImages().map(createEncodedThumbnail));
+}
+
+// The first reference image has the highest weight, so order matters
+export const ReferenceImagesControls: FC<Props> = ({ renderer, supported }) => {
+    const [settings, setSettings] = useCache<ReferenceImageSettings>(
+        referenceImageSettingsKey,
+        defaultReferenceImageSettings
+    );
+    const [thumbnails, setThumbnails] = useState<string[]>([]);
+
+    const refreshThumbnails = () => {
+        createThumbnails(renderer)
+            .then(setThumbnails)
+            .catch((err) => console.error("Failed to create reference thumbnails", err));
+    };
+
+    useEffect(() => {
+        createThumbnails(renderer)
+            .then(setThumbnails)
+            .catch((err) => console.error("Failed to create reference thumbnails", err));
+    }, [renderer]);
+
+    const onReferenceImageSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = event.target.files;
+        if (files && files.length > 0) {
+            loadImage(
+                files[0],
+                (img) => {
+                    renderer.addReferenceImage(img as HTMLImageElement);
+                    refreshThumbnails();
+                },
+                { canvas: false }
+            );
+        }
+        // allow the same file to be added again
+        event.target.value = "";
+    };
+
+    const onRemove = (index: number) => {
+        renderer.removeReferenceImage(index);
+        refreshThumbnails();
+    };
+
+    const onMove = (index: number, newIndex: number) => {
+        renderer.moveReferenceImage(index, newIndex);
+        refreshThumbnails();
+    };
+
+    return (
+        <>
+            <div className="form-check">
+                <input
+                    className="form-check-input"
+                    type="checkbox"
+                    id="use-reference-images"
+                    checked={settings.enabled}
+                    onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                />
+                <label className="form-check-label" htmlFor="use-reference-images">
+                    Use reference images
+                </label>
+            </div>
+            {!supported && (
+                <small className="text-muted">
+                    The current workflow doesn't support reference images.
+                </small>
+            )}
+            <div className="form-group">
+                <label>Reference weight: {settings.weight.toFixed(2)}</label>
+                <input
+                    type="range"
+                    className="form-control-range"
+                    min="0"
+                    max="1.5"
+                    step="0.05"
+                    value={settings.weight}
+                    disabled={!settings.enabled}
+                    onChange={(e) =>
+                        setSettings({ ...settings, weight: parseFloat(e.target.value) })
+                    }
+                />
+            </div>
+            <div className="form-group" style={{ display: "flex", flexWrap: "wrap" }}>
+                {thumbnails.map((thumbnail, i) => (
+                    <div key={i} style={{ margin: "0 8px 8px 0", textAlign: "center" }}>
+                        <img
+                            src={thumbnail}
+                            alt={`Reference ${i + 1}`}
+                            style={{ maxWidth: "96px", maxHeight: "96px", display: "block" }}
+                        />
+                        <div className="btn-group">
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                disabled={i === 0}
+                                onClick={() => onMove(i, i - 1)}
+                            >
+                                <i className="fas fa-arrow-left"></i>
+                            </button>
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                disabled={i === thumbnails.length - 1}
+                                onClick={() => onMove(i, i + 1)}
+                            >
+                                <i className="fas fa-arrow-right"></i>
+                            </button>
+                            <button
+                                className="btn btn-sm btn-secondary"
+                                onClick={() => onRemove(i)}
+                            >
+                                <i className="fas fa-times"></i>
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="form-group">
+                <label className="btn btn-secondary" style={{ display: "inline" }}>
+                    <i className="fas fa-plus"></i>&nbsp; Add reference image
+                    <input
+                        type="file"
+                        accept="image/*"
+                        style={{ display: "none" }}
+                        onChange={onReferenceImageSelected}
+                    />
+                </label>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,106 @@
+import { FC, useEffect, useState } from "react";
+import { Renderer } from "./renderer";
+import { AITool } from "./ai-tool";
+import { PromptRegion, promptRegionColors } from "./models";
+
+interface Props {
+    renderer: Renderer;
+    tool: AITool;
+}
+
+export const RegionalPromptControls: FC<Props> = ({ renderer, tool }) => {
+    const [regions, setRegions] = useState<PromptRegion[]>(() => renderer.getPromptRegions());
+    const [drawing, setDrawing] = useState(false);
+
+    useEffect(() => {
+        tool.onRegionsChanged(setRegions);
+    }, [tool]);
+
+    useEffect(() => {
+        // growing the canvas left or up, or undoing that, moves the regions
+        const onSnapshot = () => setRegions(renderer.getPromptRegions());
+        renderer.addSnapshotListener(onSnapshot);
+        return () => renderer.removeSnapshotListener(onSnapshot);
+    }, [renderer]);
+
+    useEffect(() => {
+        tool.setDrawingRegions(drawing);
+        // stop drawing when the panel is closed
+        return () => tool.setDrawingRegions(false);
+    }, [tool, drawing]);
+
+    const updateRegion = (index: number, update: Partial<PromptRegion>) => {
+        tool.setPromptRegions(regions.map((region, i) => (i === index ? { ...region, ...update } : region)));
+    };
+
+    const removeRegion = (index: number) => {
+        tool.setPromptRegions(regions.filter((_, i) => i !== index));
+    };
+
+    return (
+        <>
+            {regions.map((region, i) => (
+                <div key={i} className="form-group">
+                    <div style={{ display: "flex", alignItems: "center" }}>
+                        <i
+                            className="fas fa-square"
+                            style={{ color: promptRegionColors[i % promptRegionColors.length] }}
+                        ></i>
+                        &nbsp;
+                        <input
+                            className="form-control"
+                            style={{ flex: 1 }}
+                            placeholder={`Prompt for region ${i + 1}`}
+                            value={region.prompt}
+                            onChange={(e) => updateRegion(i, { prompt: e.target.value })}
+                        />
+                        &nbsp;
+                        <button
+                            className="btn btn-sm btn-secondary"
+                            title="Remove region"
+                            onClick={() => removeRegion(i)}
+                        >
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+                    <label style={{ width: "100%" }}>
+                        <small>Weight</small>
+                        <small
+                            className="form-text text-muted"
+                            style={{ float: "right" }}
+                        >
+                            {Math.round(region.weight * 100)}%
+                        </small>
+                    </label>
+                    <input
+                        type="range"
+                        className="form-control-range"
+                        min="0"
+                        max="2"
+                        step="0.05"
+                        value={region.weight}
+                        onChange={(e) => updateRegion(i, { weight: parseFloat(e.target.value) })}
+                    />
+                </div>
+            ))}
+            <div className="form-group">
+                <button
+                    className={`btn ${drawing ? "btn-primary" : "btn-secondary"}`}
+                    onClick={() => setDrawing(!drawing)}
+                >
+                    <i className="fas fa-vector-square"></i>&nbsp; {drawing ? "Done drawing" : "Draw regions"}
+                </button>
+                &nbsp;
+                {regions.length > 0 && (
+                    <button className="btn btn-secondary" onClick={() => tool.setPromptRegions([])}>
+                        Clear
+                    </button>
+                )}
+                <small className="form-text text-muted">
+                    Drag on the canvas to add a region. Each region's prompt is applied on top of the main
+                    prompt wherever it overlaps the selection. Regions without a prompt are ignored.
+                </small>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,60 @@
+import { FC, useEffect } from "react";
+import { Renderer } from "./renderer";
+import { useCache } from "../lib/cache";
+import { DEFAULT_ASPECT_RATIO, aspectRatios } from "../lib/aspecRatios";
+
+// relative to the ~1 megapixel sizes the models are trained on
+const sizes = [0.5, 0.75, 1, 1.25, 1.5];
+
+interface Props {
+    renderer: Renderer;
+}
+
+export const SelectionSizeControls: FC<Props> = ({ renderer }) => {
+    const [aspectRatioId, setAspectRatioId] = useCache("aspectRatio", DEFAULT_ASPECT_RATIO);
+    const [size, setSize] = useCache("selectionSize", 1);
+    const aspectRatio =
+        aspectRatios.find((ratio) => ratio.id === aspectRatioId) || aspectRatios[DEFAULT_ASPECT_RATIO];
+
+    useEffect(() => {
+        // scale() snaps to multiples of 64
+        const { width, height } = aspectRatio.scale(size);
+        renderer.setSelectionSize(width, height);
+    }, [renderer, aspectRatio, size]);
+
+    return (
+        <div className="form-group">
+            <label>Selection size</label>
+            <div style={{ display: "flex" }}>
+                <select
+                    className="form-control"
+                    style={{ flex: 1 }}
+                    value={aspectRatio.id}
+                    onChange={(e) => setAspectRatioId(parseInt(e.target.value))}
+                >
+                    {aspectRatios.map((ratio) => (
+                        <option key={ratio.id} value={ratio.id}>
+                            {ratio.displayName}
+                        </option>
+                    ))}
+                </select>
+                &nbsp;
+                <select
+                    className="form-control"
+                    style={{ flex: 1 }}
+                    value={size}
+                    onChange={(e) => setSize(parseFloat(e.target.value))}
+                >
+                    {sizes.map((scale) => {
+                        const { width, height } = aspectRatio.scale(scale);
+                        return (
+                            <option key={scale} value={scale}>
+                                {width} x {height}
+                            </option>
+                        );
+                    })}
+                </select>
+            </div>
+        </div>
+    );
+};
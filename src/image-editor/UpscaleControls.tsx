@@ -0,0 +1,100 @@
+import { FC, useEffect, useState } from "react";
+import { Renderer } from "./renderer";
+import { useCache } from "../lib/cache";
+import { upscaleImageData } from "../lib/upscale";
+import { imageDataToCanvas } from "../lib/imageutil";
+import { BusyModal } from "../components/BusyModal";
+import { ProgressBar } from "../components/ProgressBar";
+import { jobQueue, useJobs } from "../lib/jobqueue";
+
+interface Props {
+    renderer: Renderer;
+}
+
+export const UpscaleControls: FC<Props> = ({ renderer }) => {
+    const [scale, setScale] = useCache("upscaleScale", 2);
+    const [selectionOnly, setSelectionOnly] = useCache("upscaleSelectionOnly", false);
+    // the job shown in the modal; closing the modal leaves it running in the queue
+    const [watchedJobId, setWatchedJobId] = useState<number | undefined>(undefined);
+    const jobs = useJobs();
+    const watchedJob = jobs.find((job) => job.id === watchedJobId);
+    const busy = !!watchedJob && (watchedJob.status === "pending" || watchedJob.status === "running");
+
+    useEffect(() => {
+        if (watchedJob && watchedJob.status === "failed") {
+            setWatchedJobId(undefined);
+            alert(`Upscale failed: ${watchedJob.error}`);
+        }
+    }, [watchedJob]);
+
+    const onUpscale = () => {
+        const selection = selectionOnly ? renderer.getSelectionOverlay() : undefined;
+        const imageData = renderer.getImageData(selection || null);
+        if (!imageData) {
+            return;
+        }
+        // queued like generations, so it can be cancelled and shares the backends with them
+        const job = jobQueue.add(`Upscale ${scale}x`, async ({ onProgress, onCancel }) => {
+            const result = await upscaleImageData(imageData, scale, onProgress, onCancel);
+            // the upscaled image replaces the document
+            renderer.setBaseImage(imageDataToCanvas(result));
+        });
+        setWatchedJobId(job.id);
+    };
+
+    return (
+        <>
+            <div className="form-group">
+                <label>Upscale</label>
+                <div className="input-group">
+                    <select
+                        className="form-control"
+                        value={scale}
+                        onChange={(e) => setScale(parseInt(e.target.value))}
+                    >
+                        <option value={2}>2x</option>
+                        <option value={4}>4x</option>
+                    </select>
+                    <button
+                        className="btn btn-primary"
+                        disabled={busy}
+                        onClick={onUpscale}
+                    >
+                        <i className="fas fa-expand"></i>&nbsp; Upscale
+                    </button>
+                </div>
+                <div className="form-check" style={{ marginTop: "8px" }}>
+                    <input
+                        className="form-check-input"
+                        type="checkbox"
+                        id="upscale-selection-only"
+                        checked={selectionOnly}
+                        onChange={(e) => setSelectionOnly(e.target.checked)}
+                    />
+                    <label className="form-check-label" htmlFor="upscale-selection-only">
+                        Selection only
+                    </label>
+                </div>
+            </div>
+            <BusyModal
+                show={busy}
+                title={watchedJob?.status === "pending" ? "Waiting in queue" : "Upscaling"}
+                onHide={() => setWatchedJobId(undefined)}
+            >
+                <ProgressBar progress={watchedJob?.progress || 0} />
+                <div style={{ marginTop: "16px" }}>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => watchedJobId && jobQueue.cancel(watchedJobId)}
+                    >
+                        Cancel
+                    </button>
+                    &nbsp;
+                    <button className="btn btn-link" onClick={() => setWatchedJobId(undefined)}>
+                        Continue in background
+                    </button>
+                </div>
+            </BusyModal>
+        </>
+    );
+};
@@ -0,0 +1,135 @@
+import React, { FC, useState } from "react";
+import {
+    WorkflowEntry,
+    WorkflowValidation,
+    addWorkflow,
+    deleteWorkflow,
+    validateWorkflow,
+} from "../lib/workflowlibrary";
+
+interface Props {
+    workflows: WorkflowEntry[];
+    // called after a workflow was added or deleted
+    onChange: (added?: WorkflowEntry) => void;
+}
+
+interface PendingImport {
+    name: string;
+    workflow: object;
+    validation: WorkflowValidation;
+}
+
+export const WorkflowLibraryControls: FC<Props> = ({ workflows, onChange }) => {
+    const [pending, setPending] = useState<PendingImport | undefined>(undefined);
+
+    const onWorkflowSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = event.target.files;
+        if (!files || files.length === 0) {
+            return;
+        }
+        const file = files[0];
+        // allow the same file to be picked again after fixing it
+        event.target.value = "";
+        let json: unknown;
+        try {
+            json = JSON.parse(await file.text());
+        } catch (err) {
+            setPending({
+                name: file.name,
+                workflow: {},
+                validation: { errors: [`Could not parse ${file.name}: ${err}`], warnings: [] },
+            });
+            return;
+        }
+        setPending({
+            name: file.name.replace(/\.json$/i, ""),
+            workflow: json as object,
+            validation: validateWorkflow(json),
+        });
+    };
+
+    const onSave = () => {
+        if (!pending) {
+            return;
+        }
+        const entry = addWorkflow(pending.name, pending.workflow);
+        setPending(undefined);
+        onChange(entry);
+    };
+
+    const onDelete = (entry: WorkflowEntry) => {
+        if (window.confirm(`Delete workflow "${entry.name}"?`)) {
+            deleteWorkflow(entry.id);
+            onChange();
+        }
+    };
+
+    const userWorkflows = workflows.filter((entry) => !entry.builtin);
+
+    return (
+        <>
+            {userWorkflows.map((entry) => (
+                <div key={entry.id} style={{ display: "flex", alignItems: "center", marginBottom: "4px" }}>
+                    <small style={{ flex: 1 }}>{entry.name}</small>
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        onClick={() => onDelete(entry)}
+                    >
+                        <i className="fas fa-trash"></i>
+                    </button>
+                </div>
+            ))}
+            <div className="form-group">
+                <label className="btn btn-secondary" style={{ display: "inline" }}>
+                    <i className="fas fa-file-import"></i>&nbsp; Import API workflow
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: "none" }}
+                        onChange={onWorkflowSelected}
+                    />
+                </label>
+            </div>
+            {pending && (
+                <div className="form-group">
+                    {pending.validation.errors.map((error) => (
+                        <small key={error} className="form-text text-danger">
+                            {error}
+                        </small>
+                    ))}
+                    {pending.validation.warnings.map((warning) => (
+                        <small key={warning} className="form-text text-warning">
+                            {warning}
+                        </small>
+                    ))}
+                    {pending.validation.errors.length === 0 && (
+                        <>
+                            <label style={{ marginTop: "8px" }}>Name</label>
+                            <input
+                                className="form-control"
+                                value={pending.name}
+                                onChange={(e) => setPending({ ...pending, name: e.target.value })}
+                            />
+                            <button
+                                className="btn btn-primary"
+                                style={{ marginTop: "8px" }}
+                                disabled={!pending.name}
+                                onClick={onSave}
+                            >
+                                <i className="fas fa-save"></i>&nbsp; Add to library
+                            </button>
+                            &nbsp;
+                        </>
+                    )}
+                    <button
+                        className="btn btn-secondary"
+                        style={{ marginTop: "8px" }}
+                        onClick={() => setPending(undefined)}
+                    >
+                        {pending.validation.errors.length === 0 ? "Cancel" : "Dismiss"}
+                    </button>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,154 @@
+import { FC, useEffect, useState } from "react";
+import { ComfyFetcher } from "../lib/comfyfetcher";
+import { getBackend } from "../lib/backend";
+import { ComfyObjectInfo } from "../lib/objectinfo";
+import {
+    ParameterValue,
+    WorkflowOverrides,
+    WorkflowParameter,
+    getWorkflowParameters,
+    loadWorkflowOverrides,
+    saveWorkflowOverrides,
+} from "../lib/workflowparams";
+
+interface Props {
+    workflowId: string;
+    workflow: object;
+}
+
+async function fetchObjectInfo(): Promise<ComfyObjectInfo> {
+    return new ComfyFetcher(getBackend()).fetch_object_info();
+}
+
+// Form for every scalar input of the workflow. Only changed values are stored,
+// as overrides for this workflow.
+export const WorkflowParameterControls: FC<Props> = ({ workflowId, workflow }) => {
+    const [objectInfo, setObjectInfo] = useState<ComfyObjectInfo | undefined>(undefined);
+    const [overrides, setOverrides] = useState<WorkflowOverrides>(() => loadWorkflowOverrides(workflowId));
+
+    useEffect(() => {
+        // without object_info, types are guessed from the workflow values
+        fetchObjectInfo()
+            .then(setObjectInfo)
+            .catch((err) => console.error("Failed to load object info", err));
+    }, []);
+
+    useEffect(() => {
+        setOverrides(loadWorkflowOverrides(workflowId));
+    }, [workflowId]);
+
+    const updateOverride = (parameter: WorkflowParameter, value: ParameterValue | undefined) => {
+        const nodeOverrides = { ...overrides[parameter.title] };
+        if (value === undefined || value === parameter.defaultValue) {
+            delete nodeOverrides[parameter.input];
+        } else {
+            nodeOverrides[parameter.input] = value;
+        }
+        const newOverrides = { ...overrides, [parameter.title]: nodeOverrides };
+        if (Object.keys(nodeOverrides).length === 0) {
+            delete newOverrides[parameter.title];
+        }
+        setOverrides(newOverrides);
+        saveWorkflowOverrides(workflowId, newOverrides);
+    };
+
+    const renderInput = (parameter: WorkflowParameter, value: ParameterValue) => {
+        switch (parameter.type) {
+            case "BOOLEAN":
+                return (
+                    <input
+                        type="checkbox"
+                        checked={value as boolean}
+                        onChange={(e) => updateOverride(parameter, e.target.checked)}
+                    />
+                );
+            case "COMBO":
+                return (
+                    <select
+                        className="form-control form-control-sm"
+                        value={value as string}
+                        onChange={(e) => updateOverride(parameter, e.target.value)}
+                    >
+                        {parameter.choices!.map((choice) => (
+                            <option key={choice} value={choice}>
+                                {choice}
+                            </option>
+                        ))}
+                    </select>
+                );
+            case "INT":
+            case "FLOAT":
+                return (
+                    <input
+                        type="number"
+                        className="form-control form-control-sm"
+                        min={parameter.min}
+                        max={parameter.max}
+                        step={parameter.step || (parameter.type === "INT" ? 1 : 0.01)}
+                        value={value as number}
+                        onChange={(e) => {
+                            const parsed =
+                                parameter.type === "INT"
+                                    ? parseInt(e.target.value)
+                                    : parseFloat(e.target.value);
+                            if (!isNaN(parsed)) {
+                                updateOverride(parameter, parsed);
+                            }
+                        }}
+                    />
+                );
+            default:
+                return (
+                    <input
+                        type="text"
+                        className="form-control form-control-sm"
+                        value={value as string}
+                        onChange={(e) => updateOverride(parameter, e.target.value)}
+                    />
+                );
+        }
+    };
+
+    const parameters = getWorkflowParameters(workflow, objectInfo);
+    const titles = Array.from(new Set(parameters.map((parameter) => parameter.title)));
+
+    return (
+        <>
+            {titles.map((title) => (
+                <div className="form-group" key={title}>
+                    <label>{title}</label>
+                    {parameters
+                        .filter((parameter) => parameter.title === title)
+                        .map((parameter) => {
+                            const override = overrides[title]?.[parameter.input];
+                            return (
+                                <div
+                                    key={parameter.input}
+                                    style={{ display: "flex", alignItems: "center", marginBottom: "4px" }}
+                                >
+                                    <small style={{ width: "40%" }}>{parameter.input}</small>
+                                    <div style={{ flex: 1 }}>
+                                        {renderInput(
+                                            parameter,
+                                            override === undefined ? parameter.defaultValue : override
+                                        )}
+                                    </div>
+                                    <button
+                                        className="btn btn-sm btn-link"
+                                        title="Reset to workflow default"
+                                        style={{ visibility: override === undefined ? "hidden" : "visible" }}
+                                        onClick={() => updateOverride(parameter, undefined)}
+                                    >
+                                        <i className="fas fa-undo"></i>
+                                    </button>
+                                </div>
+                            );
+                        })}
+                </div>
+            ))}
+            {parameters.length === 0 && (
+                <small className="form-text text-muted">This workflow has no adjustable inputs.</small>
+            )}
+        </>
+    );
+};
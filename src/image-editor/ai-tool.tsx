@@ -0,0 +1,1174 @@
+import React, { FC, useEffect, useState } from "react";
+import { Renderer } from "./renderer";
+import { PromptRegion, Rect } from "./models";
+import { BaseTool, Tool } from "./tool";
+import { useCache } from "../lib/cache";
+import { Img2Img, RegionConditioning } from "../lib/workflows";
+import { interrogateImage } from "../lib/interrogate";
+import { backendPool, workflowRequirements } from "../lib/backendpool";
+import { ComfyBackend } from "../lib/backend";
+import { applyAlphaMask, imageToImageData, loadImageDataElement } from "../lib/imageutil";
+import {
+    applyGenerationSettings,
+    applyReferenceImages,
+    loadGenerationSettings,
+    saveGenerationSettings,
+} from "../lib/generationsettings";
+import {
+    defaultInpaintWorkflowId,
+    defaultRefineWorkflowId,
+    defaultSketchWorkflowId,
+    getWorkflow,
+    listWorkflows,
+    supportsControlImage,
+    supportsReferenceImages,
+} from "../lib/workflowlibrary";
+import { GenerationSettingsControls } from "./GenerationSettingsControls";
+import { ReferenceImagesControls } from "./ReferenceImagesControls";
+import { WorkflowLibraryControls } from "./WorkflowLibraryControls";
+import { WorkflowParameterControls } from "./WorkflowParameterControls";
+import { PromptLibraryControls } from "./PromptLibraryControls";
+import { SelectionSizeControls } from "./SelectionSizeControls";
+import { RegionalPromptControls } from "./RegionalPromptControls";
+import { GenerationHistoryControls } from "./GenerationHistoryControls";
+import { PromptEntry, promptLibrary } from "../lib/promptlibrary";
+import { GenerationMetadata, withoutInputImages } from "../lib/generationmetadata";
+import { Job, jobQueue, useJobs } from "../lib/jobqueue";
+import { applyWorkflowOverrides, loadWorkflowOverrides } from "../lib/workflowparams";
+import { BusyModal } from "../components/BusyModal";
+import { ProgressBar } from "../components/ProgressBar";
+
+export const defaultNegativePrompt = "low quality, distorted, deformed, dull, boring, plain, ugly, noise";
+
+export type AIMode = "refine" | "inpaint" | "outpaint" | "sketch";
+
+// what sketch mode sends to the ControlNet
+export type ControlSource = "image" | "overlay";
+// what gets captioned into the prompt
+export type InterrogateSource = "selection" | "reference";
+
+const maskColor = "#FFFFFF";
+const maskOpacity = 0.5;
+
+const modeNames: { [mode in AIMode]: string } = {
+    refine: "Refine",
+    inpaint: "Inpaint",
+    outpaint: "Outpaint",
+    sketch: "Sketch",
+};
+
+// how a generation is listed in the queue and the generation history
+function generationName(mode: string, prompt: string): string {
+    return `${modeNames[mode as AIMode] || mode}: ${prompt || "(no prompt)"}`;
+}
+
+function randomSeed(): number {
+    return Math.floor(Math.random() * 1000000000);
+}
+
+interface AIToolArgs {
+    mode: AIMode;
+    refineWorkflow: string;
+    inpaintWorkflow: string;
+    sketchWorkflow: string;
+    maskBrushSize: number;
+    outpaintOverlap: number;
+    controlSource: ControlSource;
+    controlStrength: number;
+    controlStart: number;
+    controlEnd: number;
+    prompt: string;
+    negativePrompt: string;
+    denoise: number;
+    seed: number;
+    variations: number;
+}
+
+export class AITool extends BaseTool implements Tool {
+    private mode: AIMode = "refine";
+    private refineWorkflow = defaultRefineWorkflowId;
+    private inpaintWorkflow = defaultInpaintWorkflowId;
+    private sketchWorkflow = defaultSketchWorkflowId;
+    private maskBrushSize = 64;
+    private outpaintOverlap = 64;
+    private controlSource: ControlSource = "image";
+    private controlStrength = 0.8;
+    private controlStart = 0;
+    private controlEnd = 0.8;
+    private prompt = "";
+    private negativePrompt = defaultNegativePrompt;
+    private denoise = 0.65;
+    private seed = 0;
+    private variations = 1;
+
+    // results of a multi-variation generation, waiting for the user to pick one
+    private candidates: ImageData[] = [];
+    private candidateSelection: Rect | undefined;
+    // outpainted candidates grow the canvas when kept
+    private candidatesExpand = false;
+    private candidateGenerations: GenerationMetadata[] = [];
+    private candidateIndex = 0;
+    private candidatesListener?: (count: number, index: number) => void;
+    private showSelectionControlsListener?: (show: boolean) => void;
+
+    // while on, dragging draws a new prompt region instead of moving the selection
+    private drawingRegions = false;
+    // set once another tool takes over, so late results don't land on this one
+    private destroyed = false;
+    private regionStart: { x: number; y: number } | undefined;
+    private regionsListener?: (regions: PromptRegion[]) => void;
+
+    private dragging = false;
+    private painting = false;
+    private lastX = 0;
+    private lastY = 0;
+
+    constructor(renderer: Renderer, name = "AI") {
+        super(renderer, name);
+        renderer.setPromptRegionsVisible(true);
+    }
+
+    updateArgs(args: AIToolArgs) {
+        super.updateArgs(args);
+        const mode = args.mode || "refine";
+        if (this.mode === "inpaint" && mode !== "inpaint") {
+            this.clearMask();
+        }
+        this.mode = mode;
+        this.refineWorkflow = args.refineWorkflow || defaultRefineWorkflowId;
+        this.inpaintWorkflow = args.inpaintWorkflow || defaultInpaintWorkflowId;
+        this.sketchWorkflow = args.sketchWorkflow || defaultSketchWorkflowId;
+        this.maskBrushSize = args.maskBrushSize || 64;
+        this.outpaintOverlap = args.outpaintOverlap === undefined ? 64 : args.outpaintOverlap;
+        this.controlSource = args.controlSource || "image";
+        this.controlStrength = args.controlStrength === undefined ? 0.8 : args.controlStrength;
+        this.controlStart = args.controlStart || 0;
+        this.controlEnd = args.controlEnd === undefined ? 0.8 : args.controlEnd;
+        // show the mask translucently so the image stays visible underneath
+        this.renderer.editImageOpacity = this.mode === "inpaint" ? maskOpacity : 1;
+        this.prompt = args.prompt || "";
+        this.negativePrompt = args.negativePrompt || "";
+        this.denoise = args.denoise === undefined ? 0.65 : args.denoise;
+        this.seed = args.seed || 0;
+        this.variations = args.variations || 1;
+    }
+
+    onMouseDown(event: React.MouseEvent<HTMLCanvasElement, MouseEvent>) {
+        if (event.button !== 0) {
+            super.onMouseDown(event);
+            return;
+        }
+        if (this.drawingRegions) {
+            const { x, y } = this.zoomHelper.translateMouseToCanvasCoordinates(
+                event.nativeEvent.offsetX,
+                event.nativeEvent.offsetY
+            );
+            this.regionStart = { x: Math.round(x), y: Math.round(y) };
+            this.renderer.setPromptRegions([
+                ...this.renderer.getPromptRegions(),
+                { rect: { ...this.regionStart, width: 0, height: 0 }, prompt: "", weight: 1 },
+            ]);
+            return;
+        }
+        // in inpaint mode, shift+drag still moves the selection
+        if (this.mode === "inpaint" && !event.shiftKey) {
+            const { x, y } = this.zoomHelper.translateMouseToCanvasCoordinates(
+                event.nativeEvent.offsetX,
+                event.nativeEvent.offsetY
+            );
+            this.renderer.drawPoint(x, y, this.maskBrushSize, maskColor);
+            this.painting = true;
+            this.lastX = x;
+            this.lastY = y;
+        } else {
+            this.dragging = true;
+            this.moveSelection(event);
+        }
+    }
+
+    onMouseMove(event: React.MouseEvent<HTMLCanvasElement, MouseEvent>) {
+        super.onMouseMove(event);
+        const { x, y } = this.zoomHelper.translateMouseToCanvasCoordinates(
+            event.nativeEvent.offsetX,
+            event.nativeEvent.offsetY
+        );
+        if (this.regionStart) {
+            // the region being drawn is the last one
+            const regions = this.renderer.getPromptRegions();
+            const start = this.regionStart;
+            regions[regions.length - 1] = {
+                ...regions[regions.length - 1],
+                rect: {
+                    x: Math.min(start.x, Math.round(x)),
+                    y: Math.min(start.y, Math.round(y)),
+                    width: Math.abs(Math.round(x) - start.x),
+                    height: Math.abs(Math.round(y) - start.y),
+                },
+            };
+            this.renderer.setPromptRegions(regions);
+        } else if (this.painting) {
+            this.renderer.drawLine(
+                this.lastX,
+                this.lastY,
+                x,
+                y,
+                this.maskBrushSize,
+                maskColor
+            );
+            this.lastX = x;
+            this.lastY = y;
+        } else if (this.dragging) {
+            this.moveSelection(event);
+        }
+        if (this.mode === "inpaint") {
+            this.renderer.setCursor({
+                x,
+                y,
+                radius: this.maskBrushSize / 2,
+                color: maskColor,
+                type: "circle",
+            });
+        }
+    }
+
+    onMouseUp(event: React.MouseEvent<HTMLCanvasElement, MouseEvent>) {
+        if (this.regionStart) {
+            this.regionStart = undefined;
+            const regions = this.renderer.getPromptRegions();
+            const { rect } = regions[regions.length - 1];
+            // a click rather than a drag
+            if (rect.width < 16 || rect.height < 16) {
+                regions.pop();
+            }
+            this.setPromptRegions(regions);
+        }
+        this.dragging = false;
+        this.painting = false;
+        super.onMouseUp(event);
+    }
+
+    clearMask() {
+        this.renderer.setEditImage(null);
+    }
+
+    onKeyDown(event: KeyboardEvent) {
+        if (this.candidates.length === 0) {
+            return;
+        }
+        if (event.key === "ArrowLeft") {
+            this.select("left");
+        } else if (event.key === "ArrowRight") {
+            this.select("right");
+        } else if (event.key === "Enter") {
+            this.commitCandidate();
+        } else if (event.key === "Escape") {
+            this.discardCandidates();
+        } else {
+            return;
+        }
+        event.preventDefault();
+    }
+
+    setDrawingRegions(drawing: boolean) {
+        this.drawingRegions = drawing;
+    }
+
+    onRegionsChanged(listener: (regions: PromptRegion[]) => void) {
+        this.regionsListener = listener;
+    }
+
+    setPromptRegions(regions: PromptRegion[]) {
+        this.renderer.setPromptRegions(regions);
+        if (this.regionsListener) {
+            this.regionsListener(regions);
+        }
+    }
+
+    onShowSelectionControls(listener: (show: boolean) => void) {
+        this.showSelectionControlsListener = listener;
+    }
+
+    onCandidatesChanged(listener: (count: number, index: number) => void) {
+        this.candidatesListener = listener;
+    }
+
+    select(direction: "left" | "right") {
+        const count = this.candidates.length;
+        if (count === 0) {
+            return;
+        }
+        this.candidateIndex = (this.candidateIndex + (direction === "left" ? count - 1 : 1)) % count;
+        this.renderer.setSelectedCandidate(this.candidateIndex);
+        this.notifyCandidatesChanged();
+    }
+
+    commitCandidate() {
+        if (this.candidates.length === 0 || !this.candidateSelection) {
+            return;
+        }
+        const candidate = this.candidates[this.candidateIndex];
+        const generation = this.candidateGenerations[this.candidateIndex];
+        const selection = this.candidateSelection;
+        const expand = this.candidatesExpand;
+        this.discardCandidates();
+        if (generation) {
+            this.renderer.pasteGeneration(
+                candidate,
+                selection,
+                expand,
+                generationName(generation.mode, generation.prompt),
+                generation
+            );
+        } else {
+            this.renderer.pasteImage(candidate, selection, expand);
+        }
+    }
+
+    discardCandidates() {
+        this.setCandidates([], undefined);
+    }
+
+    private setCandidates(
+        candidates: ImageData[],
+        selection: Rect | undefined,
+        expand = false,
+        generations: GenerationMetadata[] = []
+    ) {
+        this.candidates = candidates;
+        this.candidateSelection = selection;
+        this.candidatesExpand = expand;
+        this.candidateGenerations = generations;
+        this.candidateIndex = 0;
+        this.renderer.setCandidates(candidates, selection);
+        this.notifyCandidatesChanged();
+        if (this.showSelectionControlsListener) {
+            this.showSelectionControlsListener(candidates.length > 0);
+        }
+    }
+
+    private notifyCandidatesChanged() {
+        if (this.candidatesListener) {
+            this.candidatesListener(this.candidates.length, this.candidateIndex);
+        }
+    }
+
+    destroy(): boolean {
+        this.destroyed = true;
+        this.discardCandidates();
+        this.clearMask();
+        this.renderer.editImageOpacity = 1;
+        this.renderer.setPromptRegionsVisible(false);
+        return true;
+    }
+
+    // center the selection overlay on the cursor
+    private moveSelection(event: React.MouseEvent<HTMLCanvasElement, MouseEvent>) {
+        const selectionOverlay = this.renderer.getSelectionOverlay();
+        if (!selectionOverlay) {
+            return;
+        }
+        const { x, y } = this.zoomHelper.translateMouseToCanvasCoordinates(
+            event.nativeEvent.offsetX,
+            event.nativeEvent.offsetY
+        );
+        this.renderer.setSelectionOverlay({
+            x: Math.round(x - selectionOverlay.width / 2),
+            y: Math.round(y - selectionOverlay.height / 2),
+            width: selectionOverlay.width,
+            height: selectionOverlay.height,
+        });
+    }
+
+    // Describes the selection, or the first reference image, so it can be used as a prompt
+    interrogate(source: InterrogateSource): Promise<string> {
+        let encodedImage: string | undefined;
+        if (source === "reference") {
+            encodedImage = this.renderer.getEncodedReferenceImages()[0];
+            if (!encodedImage) {
+                throw new Error("Add a reference image first");
+            }
+        } else {
+            const selectionOverlay = this.renderer.getSelectionOverlay();
+            if (!selectionOverlay) {
+                throw new Error("No selection overlay");
+            }
+            encodedImage = this.renderer.getEncodedImage({ ...selectionOverlay }, "png", true);
+            if (!encodedImage) {
+                throw new Error("Could not encode selection");
+            }
+        }
+        return interrogateImage(encodedImage);
+    }
+
+    // Captures the selection, mask and prompt now and queues the generation,
+    // so the user can keep editing (and queue more) while it runs.
+    queueGeneration(): Job {
+        const selectionOverlay = this.renderer.getSelectionOverlay();
+        if (!selectionOverlay) {
+            throw new Error("No selection overlay");
+        }
+        const selection = { ...selectionOverlay };
+        // the image can move under the selection before the job finishes
+        const origin = this.renderer.getOrigin();
+        const encodedImage = this.renderer.getEncodedImage(selection, "png", true);
+        if (!encodedImage) {
+            throw new Error("Could not encode selection");
+        }
+        let encodedMask: string | undefined;
+        let mask: ImageData | undefined;
+        let workflowEntry = getWorkflow(this.refineWorkflow, defaultRefineWorkflowId);
+        if (this.mode === "inpaint") {
+            encodedMask = this.renderer.getEncodedMask(selection);
+            mask = this.renderer.getEditImageData(selection);
+            if (!encodedMask || !mask) {
+                throw new Error("Paint a mask over the area to regenerate first");
+            }
+            workflowEntry = getWorkflow(this.inpaintWorkflow, defaultInpaintWorkflowId);
+            // the mask travels with the job, leaving the canvas free for the next one
+            this.clearMask();
+        }
+        let outpaintMask: ImageData | undefined;
+        if (this.mode === "outpaint") {
+            outpaintMask = this.renderer.getOutpaintMask(selection, this.outpaintOverlap);
+            if (!outpaintMask) {
+                throw new Error("Move the selection past the edge of the image to outpaint");
+            }
+            encodedMask = this.renderer.encodeMask(outpaintMask);
+            workflowEntry = getWorkflow(this.inpaintWorkflow, defaultInpaintWorkflowId);
+        }
+        let encodedControlImage: string | undefined;
+        if (this.mode === "sketch") {
+            workflowEntry = getWorkflow(this.sketchWorkflow, defaultSketchWorkflowId);
+            if (!supportsControlImage(workflowEntry.workflow)) {
+                throw new Error(
+                    `${workflowEntry.name} has no ControlNet. Sketch mode needs nodes titled "load_control_image" and "apply_controlnet".`
+                );
+            }
+            encodedControlImage = this.renderer.getEncodedControlImage(selection, this.controlSource);
+            if (!encodedControlImage) {
+                throw new Error("Could not encode control image");
+            }
+        }
+        const { workflow } = workflowEntry;
+        const overrides = loadWorkflowOverrides(workflowEntry.id);
+        const { prompt, negativePrompt, seed, denoise, variations } = this;
+        const { mode, controlStrength, controlStart, controlEnd } = this;
+        const regions: RegionConditioning[] = [];
+        for (const region of this.renderer.getPromptRegions()) {
+            const encodedMask = region.prompt && this.renderer.getEncodedRegionMask(region.rect, selection);
+            if (encodedMask) {
+                regions.push({ prompt: region.prompt, weight: region.weight, encodedMask });
+            }
+        }
+        const referenceImages = this.renderer.getEncodedReferenceImages();
+        const generationSettings = loadGenerationSettings();
+        promptLibrary
+            .record({ prompt, negativePrompt, seed, denoise, model: generationSettings.model })
+            .catch((err) => console.error("Failed to record prompt", err));
+        let name = generationName(this.mode, prompt);
+        if (variations > 1) {
+            name += ` (x${variations})`;
+        }
+
+        return jobQueue.add(name, async ({ onProgress, onExecuting, onCancel }) => {
+            const results: ImageData[] = [];
+            const generations: GenerationMetadata[] = [];
+            // previews load asynchronously, so drop the ones that arrive after the job ended
+            let showPreviews = true;
+            const showPreview = (preview: Blob) => {
+                const url = URL.createObjectURL(preview);
+                loadImageDataElement(url)
+                    .then((image) => {
+                        if (showPreviews) {
+                            this.renderer.setGenerationPreview(image, this.renderer.fromOrigin(selection, origin));
+                        }
+                    })
+                    .catch((err) => {
+                        // a truncated frame, the next one replaces it anyway
+                        console.warn("Skipping undecodable preview", err);
+                    })
+                    .finally(() => URL.revokeObjectURL(url));
+            };
+            // each variation uses the next seed, so any of them can be reproduced
+            const createImg2Img = (i: number, backend?: ComfyBackend) => {
+                const img2img = new Img2Img(workflow, backend);
+                img2img.set_seed(seed + i);
+                img2img.set_denoise(denoise);
+                applyReferenceImages(img2img, referenceImages);
+                if (encodedControlImage) {
+                    img2img.set_control_image(encodedControlImage, controlStrength, controlStart, controlEnd);
+                }
+                applyGenerationSettings(img2img, generationSettings);
+                // per-workflow overrides are more specific than the global settings
+                applyWorkflowOverrides(img2img, overrides);
+                // after the loras, so the region prompts are encoded with the same clip
+                img2img.set_prompt_regions(regions);
+                return img2img;
+            };
+            const requirements = workflowRequirements(createImg2Img(0).get_workflow());
+            // with several backends, the variations run side by side
+            const running = new Set<Img2Img>();
+            let cancelled = false;
+            const cancelAll = () => {
+                cancelled = true;
+                running.forEach((img2img) => img2img.cancel());
+            };
+            onCancel(cancelAll);
+            const progress: number[] = new Array(variations).fill(0);
+            const runVariation = (i: number) =>
+                backendPool.run(
+                    requirements,
+                    async (backend, onAbandon) => {
+                        const img2img = createImg2Img(i, backend);
+                        onAbandon(() => img2img.cancel());
+                        // following one variation on the canvas is enough
+                        if (i === 0) {
+                            img2img.on_preview(showPreview);
+                            img2img.on_executing(onExecuting);
+                        }
+                        running.add(img2img);
+                        try {
+                            const dataUrl = await img2img.run(
+                                prompt,
+                                negativePrompt,
+                                encodedImage,
+                                encodedMask,
+                                (variationProgress) => {
+                                    progress[i] = variationProgress;
+                                    onProgress(progress.reduce((sum, p) => sum + p, 0) / variations);
+                                }
+                            );
+                            return { dataUrl, workflow: img2img.get_workflow() };
+                        } finally {
+                            running.delete(img2img);
+                        }
+                    },
+                    // a variation can be moved to another backend after the job was cancelled
+                    () => cancelled
+                );
+            try {
+                const outputs = await Promise.all(
+                    Array.from({ length: variations }, (_, i) => runVariation(i))
+                ).catch((err) => {
+                    // one failed variation fails the job, so don't leave the others running
+                    cancelAll();
+                    throw err;
+                });
+                for (let i = 0; i < outputs.length; i++) {
+                    const image = await loadImageDataElement(outputs[i].dataUrl);
+                    const result = imageToImageData(image, selection.width, selection.height);
+                    if (mask) {
+                        // only keep the regenerated pixels under the (softened) mask
+                        applyAlphaMask(result, mask, false);
+                    }
+                    if (outpaintMask) {
+                        // the mask already fades out across the overlap band
+                        for (let p = 3; p < result.data.length; p += 4) {
+                            result.data[p] = outpaintMask.data[p];
+                        }
+                    }
+                    results.push(result);
+                    generations.push({
+                        mode,
+                        prompt,
+                        negativePrompt,
+                        seed: seed + i,
+                        denoise,
+                        model: generationSettings.model,
+                        loras: generationSettings.loras,
+                        workflow: withoutInputImages(outputs[i].workflow),
+                    });
+                }
+            } finally {
+                showPreviews = false;
+                this.renderer.setGenerationPreview(undefined);
+            }
+            // cancelled while the results were being decoded
+            if (cancelled) {
+                throw new Error("Cancelled");
+            }
+            const expand = !!outpaintMask;
+            const target = this.renderer.fromOrigin(selection, origin);
+            if (results.length === 1) {
+                this.renderer.pasteGeneration(
+                    results[0],
+                    target,
+                    expand,
+                    generationName(mode, prompt),
+                    generations[0]
+                );
+            } else if (this.destroyed) {
+                // nothing could pick or discard the candidates once the tool is gone
+                console.warn(`Dropping ${results.length} variations, the AI tool was closed`);
+            } else {
+                this.setCandidates(results, target, expand, generations);
+            }
+        });
+    }
+}
+
+interface Props {
+    renderer: Renderer;
+    tool: AITool;
+}
+
+export const AIControls: FC<Props> = ({ renderer, tool }) => {
+    const [mode, setMode] = useCache<AIMode>("aiMode", "refine");
+    const [refineWorkflow, setRefineWorkflow] = useCache("refineWorkflow", defaultRefineWorkflowId);
+    const [inpaintWorkflow, setInpaintWorkflow] = useCache("inpaintWorkflow", defaultInpaintWorkflowId);
+    const [sketchWorkflow, setSketchWorkflow] = useCache("sketchWorkflow", defaultSketchWorkflowId);
+    // outpainting fills the new area with the inpainting workflow
+    const workflowSelections: { [mode in AIMode]: [string, (id: string) => void, string] } = {
+        refine: [refineWorkflow, setRefineWorkflow, defaultRefineWorkflowId],
+        inpaint: [inpaintWorkflow, setInpaintWorkflow, defaultInpaintWorkflowId],
+        outpaint: [inpaintWorkflow, setInpaintWorkflow, defaultInpaintWorkflowId],
+        sketch: [sketchWorkflow, setSketchWorkflow, defaultSketchWorkflowId],
+    };
+    const [workflowId, setWorkflowId, defaultWorkflowId] = workflowSelections[mode];
+    const [workflows, setWorkflows] = useState(listWorkflows);
+    const workflowEntry = getWorkflow(workflowId, defaultWorkflowId);
+    const [maskBrushSize, setMaskBrushSize] = useCache("maskBrushSize", 64);
+    const [outpaintOverlap, setOutpaintOverlap] = useCache("outpaintOverlap", 64);
+    const [controlSource, setControlSource] = useCache<ControlSource>("controlSource", "image");
+    const [controlStrength, setControlStrength] = useCache("controlStrength", 0.8);
+    const [controlStart, setControlStart] = useCache("controlStart", 0);
+    const [controlEnd, setControlEnd] = useCache("controlEnd", 0.8);
+    const [prompt, setPrompt] = useCache("prompt", "");
+    const [interrogateSource, setInterrogateSource] = useCache<InterrogateSource>("interrogateSource", "selection");
+    const [interrogating, setInterrogating] = useState(false);
+    const [negativePrompt, setNegativePrompt] = useCache("negativePrompt", defaultNegativePrompt);
+    const [refineDenoise, setRefineDenoise] = useCache("denoise", 0.65);
+    // inpainting models work best regenerating the masked area from scratch
+    const [inpaintDenoise, setInpaintDenoise] = useCache("inpaintDenoise", 1);
+    // the ControlNet carries the composition, so sketches can be fully regenerated
+    const [sketchDenoise, setSketchDenoise] = useCache("sketchDenoise", 1);
+    const denoiseSelections: { [mode in AIMode]: [number, (denoise: number) => void] } = {
+        refine: [refineDenoise, setRefineDenoise],
+        inpaint: [inpaintDenoise, setInpaintDenoise],
+        outpaint: [inpaintDenoise, setInpaintDenoise],
+        sketch: [sketchDenoise, setSketchDenoise],
+    };
+    const [denoise, setDenoise] = denoiseSelections[mode];
+    const [seed, setSeed] = useCache("seed", randomSeed());
+    const [variations, setVariations] = useCache("variations", 1);
+    const [candidateCount, setCandidateCount] = useState(0);
+    const [candidateIndex, setCandidateIndex] = useState(0);
+    // the job shown in the modal; closing the modal leaves it running in the queue
+    const [watchedJobId, setWatchedJobId] = useState<number | undefined>(undefined);
+    const jobs = useJobs();
+    const watchedJob = jobs.find((job) => job.id === watchedJobId);
+    const [showSettings, setShowSettings] = useState(false);
+    // bumped to remount the settings panel after a preset changed the model
+    const [settingsVersion, setSettingsVersion] = useState(0);
+    const [showPrompts, setShowPrompts] = useState(false);
+    const [showReferences, setShowReferences] = useState(false);
+    const [showRegions, setShowRegions] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showLibrary, setShowLibrary] = useState(false);
+    const [showParameters, setShowParameters] = useState(false);
+
+    useEffect(() => {
+        tool.updateArgs({
+            mode,
+            refineWorkflow,
+            inpaintWorkflow,
+            sketchWorkflow,
+            maskBrushSize,
+            outpaintOverlap,
+            controlSource,
+            controlStrength,
+            controlStart,
+            controlEnd,
+            prompt,
+            negativePrompt,
+            denoise,
+            seed,
+            variations,
+        });
+    }, [
+        tool,
+        mode,
+        refineWorkflow,
+        inpaintWorkflow,
+        sketchWorkflow,
+        maskBrushSize,
+        outpaintOverlap,
+        controlSource,
+        controlStrength,
+        controlStart,
+        controlEnd,
+        prompt,
+        negativePrompt,
+        denoise,
+        seed,
+        variations,
+    ]);
+
+    useEffect(() => {
+        tool.onCandidatesChanged((count, index) => {
+            setCandidateCount(count);
+            setCandidateIndex(index);
+        });
+    }, [tool]);
+
+    useEffect(() => {
+        if (watchedJob && watchedJob.status === "failed") {
+            setWatchedJobId(undefined);
+            alert(`Generation failed: ${watchedJob.error}`);
+        }
+    }, [watchedJob]);
+
+    const onGenerate = () => {
+        try {
+            setWatchedJobId(tool.queueGeneration().id);
+        } catch (err) {
+            console.error("Generation failed", err);
+            alert(`Generation failed: ${err}`);
+        }
+    };
+
+    const onInterrogate = async () => {
+        setInterrogating(true);
+        try {
+            setPrompt(await tool.interrogate(interrogateSource));
+        } catch (err) {
+            console.error("Captioning failed", err);
+            alert(`Captioning failed: ${err}`);
+        } finally {
+            setInterrogating(false);
+        }
+    };
+
+    const onApplyPromptEntry = (entry: PromptEntry) => {
+        setPrompt(entry.prompt);
+        setNegativePrompt(entry.negativePrompt);
+        setSeed(entry.seed);
+        setDenoise(entry.denoise);
+        saveGenerationSettings({ ...loadGenerationSettings(), model: entry.model });
+        setSettingsVersion(settingsVersion + 1);
+    };
+
+    const busy = !!watchedJob && (watchedJob.status === "pending" || watchedJob.status === "running");
+
+    return (
+        <div style={{ marginTop: "16px" }}>
+            <div className="form-group">
+                <div className="btn-group">
+                    <button
+                        className={`btn ${mode === "refine" ? "btn-primary" : "btn-secondary"}`}
+                        onClick={() => setMode("refine")}
+                    >
+                        Refine
+                    </button>
+                    <button
+                        className={`btn ${mode === "inpaint" ? "btn-primary" : "btn-secondary"}`}
+                        onClick={() => setMode("inpaint")}
+                    >
+                        Inpaint
+                    </button>
+                    <button
+                        className={`btn ${mode === "outpaint" ? "btn-primary" : "btn-secondary"}`}
+                        onClick={() => setMode("outpaint")}
+                    >
+                        Outpaint
+                    </button>
+                    <button
+                        className={`btn ${mode === "sketch" ? "btn-primary" : "btn-secondary"}`}
+                        onClick={() => setMode("sketch")}
+                    >
+                        Sketch
+                    </button>
+                </div>
+            </div>
+            <div className="form-group">
+                <label>Workflow</label>
+                <select
+                    className="form-control"
+                    value={workflowId}
+                    onChange={(e) => setWorkflowId(e.target.value)}
+                >
+                    {workflows.map((entry) => (
+                        <option key={entry.id} value={entry.id}>
+                            {entry.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <SelectionSizeControls renderer={renderer} />
+            {mode === "inpaint" && (
+                <>
+                    <div className="form-group">
+                        <label style={{ width: "100%" }}>
+                            Mask brush size
+                            <small
+                                className="form-text text-muted"
+                                style={{ float: "right" }}
+                            >
+                                {maskBrushSize}px
+                            </small>
+                        </label>
+                        <input
+                            type="range"
+                            className="form-control-range"
+                            min="1"
+                            max="256"
+                            value={maskBrushSize}
+                            onChange={(e) => setMaskBrushSize(parseInt(e.target.value))}
+                        />
+                        <small className="form-text text-muted">
+                            Paint over the area to regenerate. Shift+drag moves the selection.
+                        </small>
+                    </div>
+                    <div className="form-group">
+                        <button
+                            className="btn btn-secondary"
+                            onClick={() => tool.clearMask()}
+                        >
+                            <i className="fas fa-eraser"></i>&nbsp; Clear mask
+                        </button>
+                    </div>
+                </>
+            )}
+            {mode === "outpaint" && (
+                <div className="form-group">
+                    <label style={{ width: "100%" }}>
+                        Overlap
+                        <small
+                            className="form-text text-muted"
+                            style={{ float: "right" }}
+                        >
+                            {outpaintOverlap}px
+                        </small>
+                    </label>
+                    <input
+                        type="range"
+                        className="form-control-range"
+                        min="0"
+                        max="256"
+                        step="8"
+                        value={outpaintOverlap}
+                        onChange={(e) => setOutpaintOverlap(parseInt(e.target.value))}
+                    />
+                    <small className="form-text text-muted">
+                        Drag the selection past the edge of the image. The canvas grows to fit it, and
+                        the overlap is regenerated too so the new area blends in.
+                    </small>
+                </div>
+            )}
+            {mode === "sketch" && (
+                <>
+                    <div className="form-group">
+                        <label>Control image</label>
+                        <select
+                            className="form-control"
+                            value={controlSource}
+                            onChange={(e) => setControlSource(e.target.value as ControlSource)}
+                        >
+                            <option value="image">Pencil strokes</option>
+                            <option value="overlay">Overlay layer</option>
+                        </select>
+                        <small className="form-text text-muted">
+                            Dark lines on a light background work best.
+                        </small>
+                    </div>
+                    <div className="form-group">
+                        <label style={{ width: "100%" }}>
+                            Control strength
+                            <small
+                                className="form-text text-muted"
+                                style={{ float: "right" }}
+                            >
+                                {Math.round(controlStrength * 100)}%
+                            </small>
+                        </label>
+                        <input
+                            type="range"
+                            className="form-control-range"
+                            min="0"
+                            max="2"
+                            step="0.05"
+                            value={controlStrength}
+                            onChange={(e) => setControlStrength(parseFloat(e.target.value))}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label style={{ width: "100%" }}>
+                            Control start / end
+                            <small
+                                className="form-text text-muted"
+                                style={{ float: "right" }}
+                            >
+                                {Math.round(controlStart * 100)}% - {Math.round(controlEnd * 100)}%
+                            </small>
+                        </label>
+                        <input
+                            type="range"
+                            className="form-control-range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={controlStart}
+                            onChange={(e) => setControlStart(Math.min(parseFloat(e.target.value), controlEnd))}
+                        />
+                        <input
+                            type="range"
+                            className="form-control-range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={controlEnd}
+                            onChange={(e) => setControlEnd(Math.max(parseFloat(e.target.value), controlStart))}
+                        />
+                        <small className="form-text text-muted">
+                            Ending the control early lets the model add detail on top of the lines.
+                        </small>
+                    </div>
+                </>
+            )}
+            <div className="form-group">
+                <label>Prompt</label>
+                <textarea
+                    className="form-control"
+                    rows={3}
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                />
+                <div style={{ display: "flex", marginTop: "4px" }}>
+                    <select
+                        className="form-control form-control-sm"
+                        style={{ flex: 1 }}
+                        value={interrogateSource}
+                        onChange={(e) => setInterrogateSource(e.target.value as InterrogateSource)}
+                    >
+                        <option value="selection">Selection</option>
+                        <option value="reference">First reference image</option>
+                    </select>
+                    &nbsp;
+                    <button
+                        className="btn btn-sm btn-secondary"
+                        disabled={interrogating}
+                        title="Describe the image with the Florence-2 captioning workflow"
+                        onClick={onInterrogate}
+                    >
+                        <i className={`fas ${interrogating ? "fa-spinner fa-spin" : "fa-comment-dots"}`}></i>
+                        &nbsp; Caption into prompt
+                    </button>
+                </div>
+                <small className="form-text text-muted">
+                    Captioning needs the ComfyUI-Florence2 and ComfyUI-Custom-Scripts nodes.
+                </small>
+            </div>
+            <div className="form-group">
+                <label>Negative prompt</label>
+                <textarea
+                    className="form-control"
+                    rows={2}
+                    value={negativePrompt}
+                    onChange={(e) => setNegativePrompt(e.target.value)}
+                />
+            </div>
+            <div className="form-group">
+                <label style={{ width: "100%" }}>
+                    Denoise
+                    <small
+                        className="form-text text-muted"
+                        style={{ float: "right" }}
+                    >
+                        {Math.round(denoise * 100)}%
+                    </small>
+                </label>
+                <input
+                    type="range"
+                    className="form-control-range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={denoise}
+                    onChange={(e) => setDenoise(parseFloat(e.target.value))}
+                />
+            </div>
+            <div className="form-group">
+                <label>Seed</label>
+                <div className="input-group">
+                    <input
+                        type="number"
+                        className="form-control"
+                        value={seed}
+                        onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                    />
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => setSeed(randomSeed())}
+                    >
+                        <i className="fas fa-dice"></i>
+                    </button>
+                </div>
+            </div>
+            <div className="form-group">
+                <label>Variations</label>
+                <select
+                    className="form-control"
+                    value={variations}
+                    onChange={(e) => setVariations(parseInt(e.target.value))}
+                >
+                    {[1, 2, 3, 4, 6, 8].map((count) => (
+                        <option key={count} value={count}>
+                            {count}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowPrompts(!showPrompts)}
+                >
+                    <i className={`fas fa-caret-${showPrompts ? "down" : "right"}`}></i>
+                    &nbsp; Prompt library
+                </button>
+            </div>
+            {showPrompts && (
+                <PromptLibraryControls
+                    onApply={onApplyPromptEntry}
+                    onApplyNegativePrompt={setNegativePrompt}
+                />
+            )}
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowSettings(!showSettings)}
+                >
+                    <i className={`fas fa-caret-${showSettings ? "down" : "right"}`}></i>
+                    &nbsp; Generation settings
+                </button>
+            </div>
+            {showSettings && <GenerationSettingsControls key={settingsVersion} />}
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowReferences(!showReferences)}
+                >
+                    <i className={`fas fa-caret-${showReferences ? "down" : "right"}`}></i>
+                    &nbsp; Reference images
+                </button>
+            </div>
+            {showReferences && (
+                <ReferenceImagesControls
+                    renderer={renderer}
+                    supported={supportsReferenceImages(workflowEntry.workflow)}
+                />
+            )}
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowRegions(!showRegions)}
+                >
+                    <i className={`fas fa-caret-${showRegions ? "down" : "right"}`}></i>
+                    &nbsp; Regional prompts
+                </button>
+            </div>
+            {showRegions && <RegionalPromptControls renderer={renderer} tool={tool} />}
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowHistory(!showHistory)}
+                >
+                    <i className={`fas fa-caret-${showHistory ? "down" : "right"}`}></i>
+                    &nbsp; Generation history
+                </button>
+            </div>
+            {showHistory && <GenerationHistoryControls renderer={renderer} />}
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowParameters(!showParameters)}
+                >
+                    <i className={`fas fa-caret-${showParameters ? "down" : "right"}`}></i>
+                    &nbsp; Workflow parameters
+                </button>
+            </div>
+            {showParameters && (
+                <WorkflowParameterControls workflowId={workflowEntry.id} workflow={workflowEntry.workflow} />
+            )}
+            <div className="form-group">
+                <button
+                    className="btn btn-link"
+                    onClick={() => setShowLibrary(!showLibrary)}
+                >
+                    <i className={`fas fa-caret-${showLibrary ? "down" : "right"}`}></i>
+                    &nbsp; Workflow library
+                </button>
+            </div>
+            {showLibrary && (
+                <WorkflowLibraryControls
+                    workflows={workflows}
+                    onChange={(added) => {
+                        setWorkflows(listWorkflows());
+                        if (added) {
+                            setWorkflowId(added.id);
+                        }
+                    }}
+                />
+            )}
+            <div className="form-group">
+                <button
+                    className="btn btn-primary"
+                    onClick={onGenerate}
+                >
+                    <i className="fas fa-magic"></i>&nbsp; Generate
+                </button>
+            </div>
+            {candidateCount > 0 && (
+                <div className="form-group">
+                    <label style={{ width: "100%" }}>
+                        Variation {candidateIndex + 1} of {candidateCount}
+                    </label>
+                    <div className="btn-group">
+                        <button className="btn btn-secondary" onClick={() => tool.select("left")}>
+                            <i className="fas fa-chevron-left"></i>
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => tool.select("right")}>
+                            <i className="fas fa-chevron-right"></i>
+                        </button>
+                    </div>
+                    &nbsp;
+                    <button className="btn btn-primary" onClick={() => tool.commitCandidate()}>
+                        <i className="fas fa-check"></i>&nbsp; Keep
+                    </button>
+                    &nbsp;
+                    <button className="btn btn-secondary" onClick={() => tool.discardCandidates()}>
+                        <i className="fas fa-times"></i>
+                    </button>
+                    <small className="form-text text-muted">
+                        Arrow keys cycle through variations, Enter keeps one, Escape discards them.
+                    </small>
+                </div>
+            )}
+            <BusyModal
+                show={busy}
+                title={watchedJob?.status === "pending" ? "Waiting in queue" : "Generating"}
+                onHide={() => setWatchedJobId(undefined)}
+            >
+                <ProgressBar progress={watchedJob?.progress || 0} />
+                {watchedJob?.executingNode && (
+                    <small className="form-text text-muted">Executing {watchedJob.executingNode}</small>
+                )}
+                <div style={{ marginTop: "16px" }}>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => watchedJobId && jobQueue.cancel(watchedJobId)}
+                    >
+                        Cancel
+                    </button>
+                    &nbsp;
+                    <button
+                        className="btn btn-link"
+                        onClick={() => setWatchedJobId(undefined)}
+                    >
+                        Continue in background
+                    </button>
+                </div>
+            </BusyModal>
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Rect } from "./models";
+import { GenerationMetadata } from "../lib/generationmetadata";
+
+// A generated result that was pasted into the image
+export interface GenerationHistoryEntry {
+    id: number;
+    name: string;
+    // where it was pasted, in image coordinates
+    rect: Rect;
+    // the base image under rect before and right after the paste
+    before: ImageData;
+    after: ImageData;
+    // undefined for generations that don't record their settings, like live previews
+    metadata?: GenerationMetadata;
+    timestamp: number;
+    // false once reverted
+    applied: boolean;
+}
+
+export type NewGenerationHistoryEntry = Omit<GenerationHistoryEntry, "id" | "timestamp" | "applied">;
+
+// each entry keeps two full-size crops, so only the most recent ones are kept
+const maxEntries = 20;
+
+// The generations pasted into the current image, newest first
+export class GenerationHistory {
+    private entries: GenerationHistoryEntry[] = [];
+    private nextId = 1;
+    private changeListeners: ((entries: GenerationHistoryEntry[]) => void)[] = [];
+
+    addChangeListener(listener: (entries: GenerationHistoryEntry[]) => void) {
+        this.changeListeners.push(listener);
+    }
+
+    removeChangeListener(listener: (entries: GenerationHistoryEntry[]) => void) {
+        this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    }
+
+    getEntries(): GenerationHistoryEntry[] {
+        return [...this.entries];
+    }
+
+    getEntry(id: number): GenerationHistoryEntry | undefined {
+        return this.entries.find((entry) => entry.id === id);
+    }
+
+    add(entry: NewGenerationHistoryEntry) {
+        this.entries = [
+            { ...entry, id: this.nextId++, timestamp: Date.now(), applied: true },
+            ...this.entries,
+        ].slice(0, maxEntries);
+        this.notifyChangeListeners();
+    }
+
+    setApplied(id: number, applied: boolean) {
+        this.entries = this.entries.map((entry) => (entry.id === id ? { ...entry, applied } : entry));
+        this.notifyChangeListeners();
+    }
+
+    remove(id: number) {
+        this.entries = this.entries.filter((entry) => entry.id !== id);
+        this.notifyChangeListeners();
+    }
+
+    clear() {
+        this.entries = [];
+        this.notifyChangeListeners();
+    }
+
+    // the image grew to the left or top, so everything in it moved
+    shift(x: number, y: number) {
+        if (x === 0 && y === 0) {
+            return;
+        }
+        this.entries = this.entries.map((entry) => ({
+            ...entry,
+            rect: { ...entry.rect, x: entry.rect.x + x, y: entry.rect.y + y },
+        }));
+        this.notifyChangeListeners();
+    }
+
+    private notifyChangeListeners() {
+        const entries = this.getEntries();
+        for (const listener of this.changeListeners) {
+            listener(entries);
+        }
+    }
+}
+
+// keeps a component in sync with the history
+export function useGenerationHistory(history: GenerationHistory): GenerationHistoryEntry[] {
+    const [entries, setEntries] = useState<GenerationHistoryEntry[]>(() => history.getEntries());
+
+    useEffect(() => {
+        setEntries(history.getEntries());
+        history.addChangeListener(setEntries);
+        return () => history.removeChangeListener(setEntries);
+    }, [history]);
+
+    return entries;
+}
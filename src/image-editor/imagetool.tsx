@@ -7,16 +7,38 @@ import { BaseTool } from "./tool";
 import { Dropdown } from "react-bootstrap";
 import { useCache } from "../lib/cache";
 import { OpacityControls } from "./OpacityControls";
+import { UpscaleControls } from "./UpscaleControls";
+import {
+    embedGenerationMetadata,
+    extractGenerationMetadata,
+    restoreGenerationMetadata,
+} from "../lib/generationmetadata";
 
 interface Props {
     renderer: Renderer;
     tool: BaseTool;
 }
 
+// images exported from here or generated by ComfyUI carry their generation settings
+async function offerToRestoreSettings(file: File) {
+    const metadata = extractGenerationMetadata(new Uint8Array(await file.arrayBuffer()));
+    if (!metadata) {
+        return;
+    }
+    const summary = `"${metadata.prompt || "(no prompt)"}", seed ${metadata.seed}` +
+        (metadata.model ? `, ${metadata.model}` : "");
+    if (window.confirm(`This image was generated with ${summary}. Restore its generation settings?`)) {
+        restoreGenerationMetadata(metadata);
+    }
+}
+
 export const ImportExportControls: FC<Props> = ({ renderer, tool }) => {
     const onImageSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
         if (files && files.length > 0) {
+            offerToRestoreSettings(files[0]).catch((err) => {
+                console.error("Could not read image metadata", err);
+            });
             loadImage(
                 files[0],
                 (img) => {
@@ -66,10 +88,14 @@ export const ImportExportControls: FC<Props> = ({ renderer, tool }) => {
             const byteString = atob(encodedImage);
             // save as file
             const buffer = new ArrayBuffer(byteString.length);
-            const intArray = new Uint8Array(buffer);
+            let intArray = new Uint8Array(buffer);
             for (let i = 0; i < byteString.length; i++) {
                 intArray[i] = byteString.charCodeAt(i);
             }
+            const generation = renderer.getVisibleGeneration();
+            if (format === "png" && generation) {
+                intArray = embedGenerationMetadata(intArray, generation);
+            }
             const blob = new Blob([intArray], { type: `image/${format}` });
             let newFilename = window.prompt("Save Image As:", "image." + format);
             if (!newFilename) {
@@ -142,6 +168,7 @@ export const ImportExportControls: FC<Props> = ({ renderer, tool }) => {
                     </Dropdown.Menu>
                 </Dropdown>
             </div>
+            <UpscaleControls renderer={renderer} />
             <OpacityControls renderer={renderer} />
         </>
     );
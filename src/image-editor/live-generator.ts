@@ -0,0 +1,199 @@
+import { Renderer } from "./renderer";
+import { Rect } from "./models";
+import { Img2Img } from "../lib/workflows";
+import { ComfyBackend } from "../lib/backend";
+import { backendPool, workflowRequirements } from "../lib/backendpool";
+import { getCachedValue } from "../lib/cache";
+import {
+    applyGenerationSettings,
+    applyReferenceImages,
+    loadGenerationSettings,
+} from "../lib/generationsettings";
+import { imageToImageData, loadImageDataElement } from "../lib/imageutil";
+import { defaultRefineWorkflowId, getWorkflow } from "../lib/workflowlibrary";
+import { applyWorkflowOverrides, loadWorkflowOverrides } from "../lib/workflowparams";
+
+// sampling steps used for live previews, traded off against quality for speed
+const liveSteps = 4;
+const defaultDelay = 750;
+
+export interface LivePreview {
+    selection: Rect;
+    dataUrl: string;
+    // what it was generated from, to tell when it no longer matches the current settings
+    inputs: string;
+}
+
+// Runs a quick Img2Img pass on the selection whenever the image changes.
+// Snapshots are debounced, and a new snapshot cancels any generation still in flight.
+export class LiveGenerator {
+    private timer: number | undefined;
+    private generation = 0;
+    private img2img: Img2Img | undefined;
+    private skipNextSnapshot = false;
+    // counts image changes, so previews of an older image stop matching
+    private imageVersion = 0;
+
+    private previewListener?: (preview: LivePreview | undefined) => void;
+    private progressListener?: (progress: number | undefined) => void;
+
+    constructor(private readonly renderer: Renderer, private readonly delay = defaultDelay) {
+        this.onSnapshot = this.onSnapshot.bind(this);
+    }
+
+    onPreview(listener: (preview: LivePreview | undefined) => void) {
+        this.previewListener = listener;
+    }
+
+    onProgress(listener: (progress: number | undefined) => void) {
+        this.progressListener = listener;
+    }
+
+    onSnapshot() {
+        if (this.skipNextSnapshot) {
+            this.skipNextSnapshot = false;
+            return;
+        }
+        this.imageVersion++;
+        // the shown preview was made from the image before this change
+        if (this.previewListener) {
+            this.previewListener(undefined);
+        }
+        this.schedule(this.delay);
+    }
+
+    // whether the preview was generated from the current image, selection and settings
+    isCurrent(preview: LivePreview): boolean {
+        const selectionOverlay = this.renderer.getSelectionOverlay();
+        return !!selectionOverlay && this.describeInputs(selectionOverlay) === preview.inputs;
+    }
+
+    private schedule(delay: number) {
+        this.cancel();
+        const generation = this.generation;
+        this.timer = window.setTimeout(() => {
+            this.timer = undefined;
+            this.generate(generation).catch((err) => {
+                // cancelled generations reject as well
+                if (generation === this.generation) {
+                    console.error("Live generation failed", err);
+                    this.notifyProgress(generation, undefined);
+                }
+            });
+        }, delay);
+    }
+
+    // cancels the pending or in-flight generation, if any
+    cancel() {
+        this.generation++;
+        if (this.timer) {
+            window.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        if (this.img2img) {
+            this.img2img.cancel();
+            this.img2img = undefined;
+        }
+        if (this.progressListener) {
+            this.progressListener(undefined);
+        }
+    }
+
+    // Pastes the preview, or if the prompt or selection has changed since it was
+    // generated, replaces it with a new one instead
+    async commit(preview: LivePreview) {
+        if (!this.isCurrent(preview)) {
+            if (this.previewListener) {
+                this.previewListener(undefined);
+            }
+            this.schedule(0);
+            return;
+        }
+        const image = await loadImageDataElement(preview.dataUrl);
+        // committing takes a snapshot, which shouldn't kick off another preview
+        this.skipNextSnapshot = true;
+        this.renderer.pasteGeneration(
+            imageToImageData(image, preview.selection.width, preview.selection.height),
+            preview.selection,
+            false,
+            "Live preview"
+        );
+        if (this.previewListener) {
+            this.previewListener(undefined);
+        }
+    }
+
+    private async generate(generation: number) {
+        const selectionOverlay = this.renderer.getSelectionOverlay();
+        if (!selectionOverlay) {
+            return;
+        }
+        const selection = { ...selectionOverlay };
+        const inputs = this.describeInputs(selection);
+        const encodedImage = this.renderer.getEncodedImage(selection, "png", true);
+        if (!encodedImage) {
+            return;
+        }
+        const workflowEntry = getWorkflow(
+            getCachedValue("refineWorkflow", defaultRefineWorkflowId),
+            defaultRefineWorkflowId
+        );
+        const createImg2Img = (backend?: ComfyBackend) => {
+            const img2img = new Img2Img(workflowEntry.workflow, backend);
+            img2img.set_seed(getCachedValue("seed", 0));
+            img2img.set_denoise(getCachedValue("denoise", 0.65));
+            applyReferenceImages(img2img, this.renderer.getEncodedReferenceImages());
+            applyGenerationSettings(img2img, loadGenerationSettings());
+            applyWorkflowOverrides(img2img, loadWorkflowOverrides(workflowEntry.id));
+            img2img.set_steps(liveSteps);
+            return img2img;
+        };
+        this.notifyProgress(generation, 0);
+        const requirements = workflowRequirements(createImg2Img().get_workflow());
+        const dataUrl = await backendPool.run(
+            requirements,
+            (backend, onAbandon) => {
+                const img2img = createImg2Img(backend);
+                onAbandon(() => img2img.cancel());
+                this.img2img = img2img;
+                return img2img.run(
+                    getCachedValue("prompt", ""),
+                    getCachedValue("negativePrompt", ""),
+                    encodedImage,
+                    undefined,
+                    (progress) => this.notifyProgress(generation, progress)
+                );
+            },
+            // a newer snapshot cancelled this one while it waited for a backend
+            () => generation !== this.generation
+        );
+        // a newer snapshot has superseded this one
+        if (generation !== this.generation) {
+            return;
+        }
+        this.img2img = undefined;
+        this.notifyProgress(generation, undefined);
+        if (this.previewListener) {
+            this.previewListener({ selection, dataUrl, inputs });
+        }
+    }
+
+    private describeInputs(selection: Rect): string {
+        return JSON.stringify({
+            imageVersion: this.imageVersion,
+            selection: { x: selection.x, y: selection.y, width: selection.width, height: selection.height },
+            prompt: getCachedValue("prompt", ""),
+            negativePrompt: getCachedValue("negativePrompt", ""),
+            seed: getCachedValue("seed", 0),
+            denoise: getCachedValue("denoise", 0.65),
+            workflow: getCachedValue("refineWorkflow", defaultRefineWorkflowId),
+            settings: loadGenerationSettings(),
+        });
+    }
+
+    private notifyProgress(generation: number, progress: number | undefined) {
+        if (generation === this.generation && this.progressListener) {
+            this.progressListener(progress);
+        }
+    }
+}
@@ -11,4 +11,14 @@ export interface Cursor {
     radius: number;
     color: string;
     type: "circle" | "circle-fill" | "colorpicker" | "crosshairs";
-}
\ No newline at end of file
+}
+// A part of the image with its own prompt, for regional prompting
+export interface PromptRegion {
+    rect: Rect;
+    prompt: string;
+    // strength of the region's conditioning
+    weight: number;
+}
+
+// regions are told apart by color, in the order they were drawn
+export const promptRegionColors = ["#FF4136", "#2ECC40", "#0074D9", "#FFDC00", "#B10DC9", "#FF851B"];
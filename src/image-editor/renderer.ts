@@ -1,11 +1,46 @@
-import { Cursor, Rect } from "./models";
+import { Cursor, PromptRegion, Rect, promptRegionColors } from "./models";
+import { imageDataToCanvas } from "../lib/imageutil";
+import { GenerationHistory, GenerationHistoryEntry } from "./generation-history";
+import { GenerationMetadata } from "../lib/generationmetadata";
 
 const maxSnapshots = 50;
+// per channel, how far a pixel may drift through canvas round trips and still count as unchanged
+const pixelTolerance = 2;
+// a generation counts as showing while at least this much of it hasn't been painted over
+const minVisibleFraction = 0.5;
+
+// a history entry shown split at a fraction of its width: before on the left, after on the right
+interface GenerationComparison {
+    entryId: number;
+    rect: Rect;
+    before: HTMLCanvasElement;
+    after: HTMLCanvasElement;
+    split: number;
+}
+
+// whether pixel i of a and b match
+function samePixel(a: Uint8ClampedArray, b: Uint8ClampedArray, i: number): boolean {
+    for (let c = i; c < i + 4; c++) {
+        if (Math.abs(a[c] - b[c]) > pixelTolerance) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// An undo step: the base image, and where origin was when it was taken
+interface Snapshot {
+    imageData: ImageData;
+    origin: { x: number; y: number };
+}
 
 export class Renderer {
-    private undoStack: ImageData[] = [];
-    private redoStack: ImageData[] = [];
-    private currentSnapshot: ImageData | undefined;
+    private undoStack: Snapshot[] = [];
+    private redoStack: Snapshot[] = [];
+    private currentSnapshot: Snapshot | undefined;
+    // how far the image has moved right and down by growing the canvas left or up.
+    // Undo compares it with the snapshot's to move everything placed on the image back
+    private origin = { x: 0, y: 0 };
 
     private backgroundLayer: HTMLCanvasElement;
     private baseImageLayer: HTMLCanvasElement;
@@ -15,6 +50,7 @@ export class Renderer {
 
     private _overlayImageOpacity: number = 1;
     private _referenceImageOpacity: number = 0.3;
+    private _editImageOpacity: number = 1;
 
     public get overlayImageOpacity(): number {
         return this._overlayImageOpacity;
@@ -34,7 +70,19 @@ export class Renderer {
         this.render();
     }
 
+    // lowered while painting inpainting masks so the image stays visible underneath
+    public get editImageOpacity(): number {
+        return this._editImageOpacity;
+    }
+
+    public set editImageOpacity(opacity: number) {
+        this._editImageOpacity = opacity;
+        this.render();
+    }
+
     private selectionOverlay: Rect | undefined;
+    // size of the selection overlay placed on new images
+    private selectionSize = { width: 1024, height: 1024 };
     private hasSelection: boolean = false;
     private cursor: Cursor | undefined;
 
@@ -49,6 +97,23 @@ export class Renderer {
 
     private referenceImages: HTMLCanvasElement[] = [];
 
+    // generated variations waiting to be picked, previewed over candidateSelection
+    private candidates: HTMLCanvasElement[] = [];
+    private candidateSelection: Rect | undefined;
+    private selectedCandidate = 0;
+
+    // kept here so they survive switching tools, but only shown by the AI tool
+    private promptRegions: PromptRegion[] = [];
+    private promptRegionsVisible = false;
+
+    // generations pasted into this image, kept here so they survive switching tools
+    readonly generationHistory = new GenerationHistory();
+    private comparison: GenerationComparison | undefined;
+
+    // the latest sampling preview of a running generation, drawn over the selection it is for
+    private generationPreview: HTMLImageElement | undefined;
+    private generationPreviewSelection: Rect | undefined;
+
     get renderReferenceImages(): boolean {
         return this._renderReferenceImages;
     }
@@ -75,6 +140,12 @@ export class Renderer {
         this.render();
     }
 
+    moveReferenceImage(index: number, newIndex: number) {
+        const [image] = this.referenceImages.splice(index, 1);
+        this.referenceImages.splice(newIndex, 0, image);
+        this.render();
+    }
+
     referencImageCount(): number {
         return this.referenceImages.length;
     }
@@ -93,6 +164,20 @@ export class Renderer {
         return [...this.referenceImages];
     }
 
+    getPromptRegions(): PromptRegion[] {
+        return [...this.promptRegions];
+    }
+
+    setPromptRegions(regions: PromptRegion[]) {
+        this.promptRegions = regions;
+        this.render();
+    }
+
+    setPromptRegionsVisible(visible: boolean) {
+        this.promptRegionsVisible = visible;
+        this.render();
+    }
+
     constructor(private readonly canvas: HTMLCanvasElement) {
         // invisible canvas elements
         this.backgroundLayer = document.createElement("canvas");
@@ -120,23 +205,12 @@ export class Renderer {
 
     undo(allowRedo: boolean = true) {
         if (this.undoStack.length > 0 && this.currentSnapshot) {
-            const imageData = this.undoStack.pop()!;
+            const snapshot = this.undoStack.pop()!;
             if (allowRedo) {
                 this.redoStack.push(this.currentSnapshot);
             }
-            this.currentSnapshot = imageData;
-            // set as base image
-            const ctx = this.baseImageLayer.getContext("2d");
-            if (ctx) {
-                ctx.clearRect(
-                    0,
-                    0,
-                    this.baseImageLayer.width,
-                    this.baseImageLayer.height
-                );
-                ctx.putImageData(imageData, 0, 0);
-                this.render();
-            }
+            this.currentSnapshot = snapshot;
+            this.restoreSnapshot(snapshot);
             this.notifySnapshotListeners();
         }
     }
@@ -144,19 +218,44 @@ export class Renderer {
     redo() {
         if (this.redoStack.length > 0 && this.currentSnapshot) {
             this.undoStack.push(this.currentSnapshot);
-            const imageData = this.redoStack.pop()!;
-            this.currentSnapshot = imageData;
-
-            // set as base image
-            const ctx = this.baseImageLayer.getContext("2d");
-            if (ctx) {
-                ctx.putImageData(imageData, 0, 0);
-                this.render();
-            }
+            const snapshot = this.redoStack.pop()!;
+            this.currentSnapshot = snapshot;
+            this.restoreSnapshot(snapshot);
             this.notifySnapshotListeners();
         }
     }
 
+    // set as base image, resizing the layers if the snapshot was taken
+    // before (or after) the canvas was expanded
+    private restoreSnapshot({ imageData, origin }: Snapshot) {
+        const ctx = this.baseImageLayer.getContext("2d");
+        if (ctx) {
+            // undoing a left or top expansion moves the image back
+            const offset = { x: origin.x - this.origin.x, y: origin.y - this.origin.y };
+            const moved = offset.x !== 0 || offset.y !== 0;
+            if (moved || imageData.width !== this.width || imageData.height !== this.height) {
+                this.setImageSize(imageData.width, imageData.height, offset);
+                this.moveContent(offset);
+                if (this.selectionOverlay) {
+                    this.selectionOverlay = {
+                        ...this.selectionOverlay,
+                        x: this.selectionOverlay.x + offset.x,
+                        y: this.selectionOverlay.y + offset.y,
+                    };
+                }
+            } else {
+                ctx.clearRect(
+                    0,
+                    0,
+                    this.baseImageLayer.width,
+                    this.baseImageLayer.height
+                );
+            }
+            ctx.putImageData(imageData, 0, 0);
+            this.render();
+        }
+    }
+
     clearRedoStack() {
         this.redoStack = [];
         this.notifySnapshotListeners();
@@ -183,12 +282,10 @@ export class Renderer {
     snapshot() {
         const ctx = this.baseImageLayer.getContext("2d");
         if (ctx) {
-            const snapshot = ctx.getImageData(
-                0,
-                0,
-                this.baseImageLayer.width,
-                this.baseImageLayer.height
-            );
+            const snapshot: Snapshot = {
+                imageData: ctx.getImageData(0, 0, this.baseImageLayer.width, this.baseImageLayer.height),
+                origin: { ...this.origin },
+            };
             if (this.currentSnapshot) {
                 this.undoStack.push(this.currentSnapshot);
                 this.currentSnapshot = snapshot;
@@ -231,8 +328,7 @@ export class Renderer {
             context.drawImage(this.baseImageLayer, 0, 0);
             context.globalAlpha = this.referenceImageOpacity;
             context.drawImage(this.refImageLayer, 0, 0);
-            // set opacity back to 1
-            context.globalAlpha = 1;
+            context.globalAlpha = this.editImageOpacity;
             context.drawImage(this.editLayer, 0, 0);
 
             context.globalAlpha = this.overlayImageOpacity;
@@ -356,44 +452,60 @@ export class Renderer {
 
     setBaseImage(
         image: HTMLImageElement | HTMLCanvasElement,
-        updateSelectionOverlay = true
+        updateSelectionOverlay = true,
+        takeSnapshot = true,
+        keepLayersAt?: { x: number; y: number }
     ) {
         const context = this.baseImageLayer.getContext("2d");
         if (context) {
-            // set size of all layers
             // TODO: adapt for an always-square canvas
             this.initializeBackgroundLayer();
-
-            this.baseImageLayer.width = image.width;
-            this.baseImageLayer.height = image.height;
-            this.refImageLayer.width = image.width;
-            this.refImageLayer.height = image.height;
-            this.editLayer.width = image.width;
-            this.editLayer.height = image.height;
-            this.overlayLayer.width = image.width;
-            this.overlayLayer.height = image.height;
-            // set image size
-            this.width = image.width;
-            this.height = image.height;
-            // this.canvas.width = image.width;
-            // this.canvas.height = image.height;
+            this.setImageSize(image.width, image.height, keepLayersAt);
             context.drawImage(image, 0, 0);
 
             if (updateSelectionOverlay) {
-                // set 1024x1024 selection overlay at the center of the image
+                // set the selection overlay at the center of the image
                 this.setSelectionOverlay({
-                    x: (image.width - 1024) / 2,
-                    y: (image.height - 1024) / 2,
-                    width: 1024,
-                    height: 1024,
+                    x: Math.round((image.width - this.selectionSize.width) / 2),
+                    y: Math.round((image.height - this.selectionSize.height) / 2),
+                    ...this.selectionSize,
                 });
             }
             this.resetView();
             // this.render(); // already called by updateZoomAndOffset
-            this.snapshot();
+            if (takeSnapshot) {
+                // a different image, so the recorded generations no longer line up with it
+                this.generationHistory.clear();
+                this.comparison = undefined;
+                this.snapshot();
+            }
         }
     }
 
+    // set size of all layers. Resizing a canvas clears it, so with keepLayersAt the
+    // reference, edit and overlay layers are redrawn that far from where they were,
+    // e.g. to keep a mask that is being painted when the canvas grows
+    private setImageSize(width: number, height: number, keepLayersAt?: { x: number; y: number }) {
+        const layers = [this.refImageLayer, this.editLayer, this.overlayLayer];
+        const copies = keepLayersAt ? layers.map(copyCanvas) : [];
+        this.baseImageLayer.width = width;
+        this.baseImageLayer.height = height;
+        this.refImageLayer.width = width;
+        this.refImageLayer.height = height;
+        this.editLayer.width = width;
+        this.editLayer.height = height;
+        this.overlayLayer.width = width;
+        this.overlayLayer.height = height;
+        this.width = width;
+        this.height = height;
+        copies.forEach((copy, i) => {
+            const context = layers[i].getContext("2d");
+            if (copy && context && keepLayersAt) {
+                context.drawImage(copy, keepLayersAt.x, keepLayersAt.y);
+            }
+        });
+    }
+
     resetView() {
         // Determine the aspect ratios of the image and canvas
         const imageAspectRatio = this.width / this.height;
@@ -456,6 +568,31 @@ export class Renderer {
             context.strokeStyle = "white";
             context.lineWidth = lineWidth;
             context.strokeRect(0, 0, width, height);
+            if (this.selectionOverlay) {
+                // dashed outline so the generation region stands out from the image border
+                context.setLineDash([lineWidth * 4, lineWidth * 4]);
+                context.strokeRect(
+                    this.selectionOverlay.x,
+                    this.selectionOverlay.y,
+                    this.selectionOverlay.width,
+                    this.selectionOverlay.height
+                );
+                context.setLineDash([]);
+            }
+            if (this.comparison) {
+                this.drawComparison(context, this.comparison, lineWidth);
+            }
+            if (this.generationPreview && this.generationPreviewSelection) {
+                // previews are usually smaller than the generation, so stretch them over it
+                const { x, y, width, height } = this.generationPreviewSelection;
+                context.drawImage(this.generationPreview, x, y, width, height);
+            }
+            if (this.promptRegionsVisible) {
+                this.drawPromptRegions(context, lineWidth);
+            }
+            if (this.candidateSelection && this.candidates.length > 0) {
+                this.drawCandidates(context, this.candidateSelection, lineWidth);
+            }
             if (this.cursor) {
                 if (this.cursor.type === "circle") {
                     context.lineWidth = lineWidth;
@@ -559,11 +696,74 @@ export class Renderer {
         }
     }
 
+    private drawPromptRegions(context: CanvasRenderingContext2D, lineWidth: number) {
+        context.lineWidth = lineWidth;
+        context.font = `${lineWidth * 12}px sans-serif`;
+        context.textBaseline = "top";
+        this.promptRegions.forEach((region, i) => {
+            const { x, y, width, height } = region.rect;
+            const color = promptRegionColors[i % promptRegionColors.length];
+            context.strokeStyle = color;
+            context.fillStyle = color;
+            context.globalAlpha = 0.15;
+            context.fillRect(x, y, width, height);
+            context.globalAlpha = 1;
+            context.strokeRect(x, y, width, height);
+            const label = `${i + 1}${region.prompt ? `: ${region.prompt}` : ""}`;
+            context.fillText(label, x + lineWidth * 4, y + lineWidth * 4, width - lineWidth * 8);
+        });
+    }
+
+    private drawComparison(
+        context: CanvasRenderingContext2D,
+        comparison: GenerationComparison,
+        lineWidth: number
+    ) {
+        const { rect, before, after } = comparison;
+        const split = Math.round(rect.width * comparison.split);
+        if (split > 0) {
+            context.drawImage(before, 0, 0, split, rect.height, rect.x, rect.y, split, rect.height);
+        }
+        if (split < rect.width) {
+            const width = rect.width - split;
+            context.drawImage(after, split, 0, width, rect.height, rect.x + split, rect.y, width, rect.height);
+        }
+        context.strokeStyle = "white";
+        context.lineWidth = lineWidth * 2;
+        context.beginPath();
+        context.moveTo(rect.x + split, rect.y);
+        context.lineTo(rect.x + split, rect.y + rect.height);
+        context.stroke();
+        context.lineWidth = lineWidth;
+        context.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    setGenerationPreview(preview: HTMLImageElement | undefined, selection?: Rect) {
+        this.generationPreview = preview;
+        this.generationPreviewSelection = selection && { ...selection };
+        this.render();
+    }
+
     setSelectionOverlay(selectionOverlay: Rect | undefined) {
         this.selectionOverlay = selectionOverlay;
         this.render();
     }
 
+    // Resizes the selection overlay around its center. The size is kept for new images.
+    setSelectionSize(width: number, height: number) {
+        this.selectionSize = { width, height };
+        if (this.selectionOverlay) {
+            const centerX = this.selectionOverlay.x + this.selectionOverlay.width / 2;
+            const centerY = this.selectionOverlay.y + this.selectionOverlay.height / 2;
+            this.setSelectionOverlay({
+                x: Math.round(centerX - width / 2),
+                y: Math.round(centerY - height / 2),
+                width,
+                height,
+            });
+        }
+    }
+
     setCursor(cursor: Cursor | undefined) {
         this.cursor = cursor;
         this.render();
@@ -686,6 +886,94 @@ export class Renderer {
         return erasure;
     }
 
+    getEditImageData(selection: Rect): ImageData | undefined {
+        const context = this.editLayer.getContext("2d");
+        if (context) {
+            return context.getImageData(
+                selection.x,
+                selection.y,
+                selection.width,
+                selection.height
+            );
+        }
+    }
+
+    // Encodes whatever was painted on the edit layer inside the selection as an
+    // inpainting mask: painted pixels become transparent, everything else opaque black.
+    // Returns undefined if nothing was painted.
+    getEncodedMask(selection: Rect): string | undefined {
+        const imageData = this.getEditImageData(selection);
+        if (!imageData) {
+            return;
+        }
+        return this.encodeMask(imageData);
+    }
+
+    // Encodes a mask in the edit layer's format (regenerate where alpha > 0) for ComfyUI.
+    // The mask is left untouched.
+    encodeMask(mask: ImageData): string | undefined {
+        const imageData = new ImageData(new Uint8ClampedArray(mask.data), mask.width, mask.height);
+        let painted = false;
+        for (let i = 0; i < imageData.data.length; i += 4) {
+            const value = imageData.data[i + 3] > 0 ? 255 : 0;
+            painted = painted || value > 0;
+            imageData.data[i] = value;
+            imageData.data[i + 1] = value;
+            imageData.data[i + 2] = value;
+            imageData.data[i + 3] = 255;
+        }
+        if (!painted) {
+            return;
+        }
+        return this.imageDataToEncodedImage(this.convertMaskToErasure(imageData), "png");
+    }
+
+    // Builds a mask of the part of the selection that hangs off the image, in the
+    // edit layer's format, so it can be outpainted. The mask reaches `overlap` pixels
+    // into the image on those sides, fading out towards the inside so the result
+    // blends with the existing pixels. Returns undefined if the selection is inside the image.
+    getOutpaintMask(selection: Rect, overlap: number): ImageData | undefined {
+        const left = selection.x < 0;
+        const top = selection.y < 0;
+        const right = selection.x + selection.width > this.width;
+        const bottom = selection.y + selection.height > this.height;
+        if (!left && !top && !right && !bottom) {
+            return;
+        }
+        const mask = new ImageData(selection.width, selection.height);
+        // how far into the overlap band a coordinate is, from 1 at the edge to 0 inside
+        const band = (distance: number) => (overlap > 0 ? Math.max(0, 1 - distance / overlap) : 0);
+        for (let y = 0; y < selection.height; y++) {
+            const imageY = selection.y + y;
+            for (let x = 0; x < selection.width; x++) {
+                const imageX = selection.x + x;
+                let alpha = 0;
+                if (imageX < 0 || imageY < 0 || imageX >= this.width || imageY >= this.height) {
+                    alpha = 1;
+                } else {
+                    if (left) {
+                        alpha = Math.max(alpha, band(imageX));
+                    }
+                    if (top) {
+                        alpha = Math.max(alpha, band(imageY));
+                    }
+                    if (right) {
+                        alpha = Math.max(alpha, band(this.width - 1 - imageX));
+                    }
+                    if (bottom) {
+                        alpha = Math.max(alpha, band(this.height - 1 - imageY));
+                    }
+                }
+                const i = (y * selection.width + x) * 4;
+                mask.data[i] = 255;
+                mask.data[i + 1] = 255;
+                mask.data[i + 2] = 255;
+                mask.data[i + 3] = Math.round(alpha * 255);
+            }
+        }
+        return mask;
+    }
+
     getImageData(
         selection: Rect | null,
         includeOverlay: boolean = false
@@ -742,6 +1030,50 @@ export class Renderer {
         }
     }
 
+    // Mask of the part of a prompt region inside the selection, encoded like an
+    // inpainting mask. Returns undefined if the region is outside the selection.
+    getEncodedRegionMask(region: Rect, selection: Rect): string | undefined {
+        const mask = new ImageData(selection.width, selection.height);
+        const left = Math.max(0, region.x - selection.x);
+        const top = Math.max(0, region.y - selection.y);
+        const right = Math.min(selection.width, region.x + region.width - selection.x);
+        const bottom = Math.min(selection.height, region.y + region.height - selection.y);
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                mask.data[(y * selection.width + x) * 4 + 3] = 255;
+            }
+        }
+        return this.encodeMask(mask);
+    }
+
+    // The selection as a ControlNet control image: either the image itself, where the
+    // pencil strokes are committed, or only the overlay layer. Transparent areas become
+    // white, so only the strokes read as lines.
+    getEncodedControlImage(selection: Rect, source: "image" | "overlay"): string | undefined {
+        const tempCanvas = document.createElement("canvas");
+        tempCanvas.width = selection.width;
+        tempCanvas.height = selection.height;
+        const context = tempCanvas.getContext("2d");
+        if (context) {
+            context.fillStyle = "white";
+            context.fillRect(0, 0, selection.width, selection.height);
+            context.drawImage(
+                source === "overlay" ? this.overlayLayer : this.baseImageLayer,
+                selection.x,
+                selection.y,
+                selection.width,
+                selection.height,
+                0,
+                0,
+                selection.width,
+                selection.height
+            );
+            const result = tempCanvas.toDataURL("image/png");
+            tempCanvas.remove();
+            return result.split(",")[1];
+        }
+    }
+
     commitSelection() {
         // This Rube Goldberg machine of a function is necessary because of a browser bug
         // introduced some time in 2023. It uses a temporary canvas to properly blend the
@@ -774,6 +1106,202 @@ export class Renderer {
     }
 
 
+    // Blends imageData into the base image layer at the selection and takes a snapshot,
+    // so generated results can be undone like any other edit. With expand, the canvas
+    // first grows to fit the selection, and both are undone as one step.
+    // Returns where the image ended up, which moves when the canvas grows left or up.
+    pasteImage(imageData: ImageData, selection: Rect, expand = false): Rect {
+        if (expand) {
+            const offset = this.expandToInclude(selection);
+            selection = { ...selection, x: selection.x + offset.x, y: selection.y + offset.y };
+            // the image moved, so keep the selection over the same content
+            if (this.selectionOverlay) {
+                this.selectionOverlay = {
+                    ...this.selectionOverlay,
+                    x: this.selectionOverlay.x + offset.x,
+                    y: this.selectionOverlay.y + offset.y,
+                };
+            }
+        }
+        const context = this.baseImageLayer.getContext("2d");
+        if (context) {
+            const tempCanvas = document.createElement("canvas");
+            tempCanvas.width = imageData.width;
+            tempCanvas.height = imageData.height;
+            const tempContext = tempCanvas.getContext("2d");
+            if (tempContext) {
+                tempContext.putImageData(imageData, 0, 0);
+                // unlike putImageData, drawImage blends transparent pixels with the base image
+                context.drawImage(tempCanvas, selection.x, selection.y);
+            }
+            tempCanvas.remove();
+            this.render();
+            this.snapshot();
+        }
+        return selection;
+    }
+
+    getOrigin(): { x: number; y: number } {
+        return { ...this.origin };
+    }
+
+    // Where a rect taken when the origin was at origin is now. Rects kept while a job
+    // runs go stale when the canvas grows left or up, or such a growth is undone
+    fromOrigin(rect: Rect, origin: { x: number; y: number }): Rect {
+        return { ...rect, x: rect.x + this.origin.x - origin.x, y: rect.y + this.origin.y - origin.y };
+    }
+
+    // the base image under rect; parts outside the image are transparent
+    getBaseImageData(rect: Rect): ImageData {
+        const context = this.baseImageLayer.getContext("2d");
+        if (!context) {
+            throw new Error("Could not get canvas context");
+        }
+        return context.getImageData(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    // Pastes a generated result like pasteImage and records it in the generation history
+    // along with the pixels it replaced, so it can be reverted on its own later.
+    pasteGeneration(
+        imageData: ImageData,
+        selection: Rect,
+        expand: boolean,
+        name: string,
+        metadata?: GenerationMetadata
+    ) {
+        const before = this.getBaseImageData(selection);
+        const rect = this.pasteImage(imageData, selection, expand);
+        this.generationHistory.add({ name, rect, before, after: this.getBaseImageData(rect), metadata });
+    }
+
+    // Puts back the pixels a generation replaced. Pixels that were painted over since
+    // keep their new content, so later edits elsewhere aren't unwound.
+    revertGeneration(id: number) {
+        const entry = this.generationHistory.getEntry(id);
+        if (entry && entry.applied) {
+            this.replaceUnchangedPixels(entry.rect, entry.after, entry.before);
+            this.generationHistory.setApplied(id, false);
+        }
+    }
+
+    // the opposite of revertGeneration
+    reapplyGeneration(id: number) {
+        const entry = this.generationHistory.getEntry(id);
+        if (entry && !entry.applied) {
+            this.replaceUnchangedPixels(entry.rect, entry.before, entry.after);
+            this.generationHistory.setApplied(id, true);
+        }
+    }
+
+    // The settings of the newest generation still showing in the image, for embedding on
+    // export. Reverted, undone and mostly painted over generations don't describe the image.
+    getVisibleGeneration(): GenerationMetadata | undefined {
+        for (const entry of this.generationHistory.getEntries()) {
+            if (entry.applied && entry.metadata && this.stillShows(entry.rect, entry.after)) {
+                return entry.metadata;
+            }
+        }
+        return undefined;
+    }
+
+    private stillShows(rect: Rect, expected: ImageData): boolean {
+        if (rect.x < 0 || rect.y < 0 || rect.x + rect.width > this.width || rect.y + rect.height > this.height) {
+            return false;
+        }
+        const current = this.getBaseImageData(rect);
+        let matching = 0;
+        for (let i = 0; i < current.data.length; i += 4) {
+            if (samePixel(current.data, expected.data, i)) {
+                matching++;
+            }
+        }
+        return matching >= (current.data.length / 4) * minVisibleFraction;
+    }
+
+    // Sets the pixels under rect that still match from to the ones in to, as one undo step
+    private replaceUnchangedPixels(rect: Rect, from: ImageData, to: ImageData) {
+        if (rect.x < 0 || rect.y < 0 || rect.x + rect.width > this.width || rect.y + rect.height > this.height) {
+            // the canvas was shrunk back by undoing an expansion
+            throw new Error("The generation is no longer inside the image");
+        }
+        const context = this.baseImageLayer.getContext("2d");
+        if (context) {
+            const current = this.getBaseImageData(rect);
+            for (let i = 0; i < current.data.length; i += 4) {
+                if (samePixel(current.data, from.data, i)) {
+                    current.data.set(to.data.subarray(i, i + 4), i);
+                }
+            }
+            context.putImageData(current, rect.x, rect.y);
+            this.render();
+            this.snapshot();
+        }
+    }
+
+    // Shows a history entry's before and after split at a fraction of its width,
+    // or hides the comparison when id is undefined
+    setGenerationComparison(id: number | undefined, split = 0.5) {
+        const entry = id === undefined ? undefined : this.generationHistory.getEntry(id);
+        this.comparison = entry && this.createComparison(entry, split);
+        this.render();
+    }
+
+    private createComparison(entry: GenerationHistoryEntry, split: number): GenerationComparison {
+        // reuse the canvases while only the split moves
+        if (this.comparison && this.comparison.entryId === entry.id) {
+            return { ...this.comparison, rect: entry.rect, split };
+        }
+        return {
+            entryId: entry.id,
+            rect: entry.rect,
+            before: imageDataToCanvas(entry.before),
+            after: imageDataToCanvas(entry.after),
+            split,
+        };
+    }
+
+    // Shows the selected candidate in place of the selection, with a thumbnail strip of
+    // all candidates underneath. Nothing is written to the image until one is pasted.
+    setCandidates(candidates: ImageData[], selection: Rect | undefined) {
+        this.candidates = candidates.map(imageDataToCanvas);
+        this.candidateSelection = selection && { ...selection };
+        this.selectedCandidate = 0;
+        this.render();
+    }
+
+    setSelectedCandidate(index: number) {
+        this.selectedCandidate = index;
+        this.render();
+    }
+
+    private drawCandidates(context: CanvasRenderingContext2D, selection: Rect, lineWidth: number) {
+        const globalAlpha = context.globalAlpha;
+        context.globalAlpha = 1;
+        context.drawImage(
+            this.candidates[this.selectedCandidate],
+            selection.x,
+            selection.y,
+            selection.width,
+            selection.height
+        );
+        const gap = lineWidth * 4;
+        const thumbHeight = Math.min(selection.height / 4, 128);
+        const thumbWidth = thumbHeight * (selection.width / selection.height);
+        const stripWidth = this.candidates.length * (thumbWidth + gap) - gap;
+        let x = selection.x + (selection.width - stripWidth) / 2;
+        const y = selection.y + selection.height + gap;
+        this.candidates.forEach((candidate, i) => {
+            context.drawImage(candidate, x, y, thumbWidth, thumbHeight);
+            if (i === this.selectedCandidate) {
+                context.strokeStyle = "#3D3BB5";
+                context.lineWidth = lineWidth * 3;
+                context.strokeRect(x, y, thumbWidth, thumbHeight);
+            }
+            x += thumbWidth + gap;
+        });
+        context.globalAlpha = globalAlpha;
+    }
+
     drawPoint(
         x: number,
         y: number,
@@ -1016,45 +1544,77 @@ export class Renderer {
         if (!this.selectionOverlay) {
             throw new Error("No selection overlay");
         }
-        const minX = Math.min(0, this.selectionOverlay.x);
-        const minY = Math.min(0, this.selectionOverlay.y);
-        const maxX = Math.max(
-            this.selectionOverlay.x + this.selectionOverlay.width,
-            this.baseImageLayer.width
-        );
-        const maxY = Math.max(
-            this.selectionOverlay.y + this.selectionOverlay.height,
-            this.baseImageLayer.height
-        );
+        this.expandToInclude(this.selectionOverlay);
+        if (this.selectionOverlay.x < 0) {
+            this.selectionOverlay.x = 0;
+        }
+        if (this.selectionOverlay.y < 0) {
+            this.selectionOverlay.y = 0;
+        }
+        this.snapshot();
+    }
+
+    // Grows the canvas so it contains rect. Returns how far the existing image
+    // moved, which is non-zero when rect hangs off the left or top edge.
+    private expandToInclude(rect: Rect): { x: number; y: number } {
+        const minX = Math.min(0, rect.x);
+        const minY = Math.min(0, rect.y);
+        const maxX = Math.max(rect.x + rect.width, this.baseImageLayer.width);
+        const maxY = Math.max(rect.y + rect.height, this.baseImageLayer.height);
         const width = maxX - minX;
         const height = maxY - minY;
+        const offset = { x: -minX, y: -minY };
 
         // create a new canvas with the expanded size
         const newCanvas = document.createElement("canvas");
         newCanvas.width = width;
         newCanvas.height = height;
-        // draw the base image on the new canvas.
-        // if overlay.x is negative, image.x is overlay.x * -1
-        // if overlay.x is 0 or positive, image.x is 0
-        // if overlay.y is negative, image.y is overlay.y * -1
-        // if overlay.y is 0 or positive, image.y is 0
+        // draw the base image on the new canvas, shifted right and down
+        // by however far rect extends past the left and top edges
         const context = newCanvas.getContext("2d");
         if (context) {
-            context.drawImage(
-                this.baseImageLayer,
-                Math.max(0, this.selectionOverlay.x * -1),
-                Math.max(0, this.selectionOverlay.y * -1)
-            );
+            context.drawImage(this.baseImageLayer, offset.x, offset.y);
         }
-        if (this.selectionOverlay.x < 0) {
-            this.selectionOverlay.x = 0;
+        console.log(`new Canvas size: ${width} x ${height}`);
+        this.setBaseImage(newCanvas, false, false, offset);
+        this.moveContent(offset);
+        return offset;
+    }
+
+    // The image moved within the canvas, so move what is placed on it along
+    private moveContent(offset: { x: number; y: number }) {
+        if (offset.x === 0 && offset.y === 0) {
+            return;
         }
-        if (this.selectionOverlay.y < 0) {
-            this.selectionOverlay.y = 0;
+        this.origin = { x: this.origin.x + offset.x, y: this.origin.y + offset.y };
+        this.generationHistory.shift(offset.x, offset.y);
+        if (this.comparison) {
+            this.comparison.rect = {
+                ...this.comparison.rect,
+                x: this.comparison.rect.x + offset.x,
+                y: this.comparison.rect.y + offset.y,
+            };
         }
-        console.log(`new Canvas size: ${width} x ${height}`);
-        this.setBaseImage(newCanvas, false);
+        this.promptRegions = this.promptRegions.map((region) => ({
+            ...region,
+            rect: { ...region.rect, x: region.rect.x + offset.x, y: region.rect.y + offset.y },
+        }));
+    }
+}
+
+// a copy of the canvas' pixels, or undefined when it is empty and can't be drawn
+function copyCanvas(canvas: HTMLCanvasElement): HTMLCanvasElement | undefined {
+    if (canvas.width === 0 || canvas.height === 0) {
+        return undefined;
+    }
+    const copy = document.createElement("canvas");
+    copy.width = canvas.width;
+    copy.height = canvas.height;
+    const context = copy.getContext("2d");
+    if (context) {
+        context.drawImage(canvas, 0, 0);
     }
+    return copy;
 }
 
 function rgbToHex(r: number, g: number, b: number) {
@@ -0,0 +1,137 @@
+import { getCachedValue } from "./cache";
+import { mockBackend } from "./mockbackend";
+
+// The parts of WebSocket we use, so a mock can stand in for it
+export interface BackendSocket {
+    readonly readyState: number;
+    onopen: ((event: Event) => void) | null;
+    onmessage: ((event: MessageEvent) => void) | null;
+    onclose: ((event: CloseEvent) => void) | null;
+    addEventListener(type: "open" | "close", listener: () => void): void;
+    close(): void;
+}
+
+// How input images get to the backend: embedded in the prompt for the
+// ETN_LoadImageBase64 nodes, or uploaded first and loaded with the stock nodes
+export type ImageTransport = "base64" | "upload";
+
+// Something that speaks the ComfyUI HTTP and websocket protocol
+export interface ComfyBackend {
+    // identifies the backend, e.g. its base url
+    readonly url: string;
+    readonly imageTransport: ImageTransport;
+    request(path: string, init?: RequestInit): Promise<Response>;
+    openSocket(path: string): BackendSocket;
+}
+
+export class HttpBackend implements ComfyBackend {
+    constructor(readonly url: string, readonly imageTransport: ImageTransport = "base64") {}
+
+    request(path: string, init?: RequestInit): Promise<Response> {
+        return fetch(`${this.url}${path}`, init);
+    }
+
+    openSocket(path: string): BackendSocket {
+        return new WebSocket(`${getWebsocketUrl(this.url)}${path}`);
+    }
+}
+
+// A ComfyUI server that generation jobs can run on
+export interface HostSettings {
+    // ComfyUI host and port, without a scheme
+    host: string;
+    // use https/wss instead of http/ws
+    secure: boolean;
+    imageTransport: ImageTransport;
+}
+
+export interface BackendSettings extends HostSettings {
+    // generate offline with the in-browser mock instead of ComfyUI
+    mock: boolean;
+    // more hosts that jobs are spread across, besides the one above
+    extraHosts: HostSettings[];
+    timelapseApiUrl: string;
+}
+
+export interface BackendStatus {
+    connected: boolean;
+    // the comfyui-tooling-nodes extension every workflow loads images with
+    hasLoadImageBase64: boolean;
+    error?: string;
+}
+
+export const backendSettingsKey = "backendSettings";
+
+export const defaultBackendSettings: BackendSettings = {
+    // older versions only stored the host, under "backend-host"
+    host: localStorage.getItem("backend-host") || "localhost:8188",
+    secure: false,
+    mock: false,
+    imageTransport: "base64",
+    extraHosts: [],
+    timelapseApiUrl: "http://localhost:3000/api",
+};
+
+export function loadBackendSettings(): BackendSettings {
+    return {
+        ...defaultBackendSettings,
+        ...getCachedValue<Partial<BackendSettings>>(backendSettingsKey, {}),
+    };
+}
+
+export function saveBackendSettings(settings: BackendSettings) {
+    localStorage.setItem(backendSettingsKey, JSON.stringify(settings));
+}
+
+// http(s) url of the ComfyUI backend
+export function getBackendUrl(settings: HostSettings = loadBackendSettings()): string {
+    return `${settings.secure ? "https" : "http"}://${settings.host}`;
+}
+
+// the matching ws(s) url for a backend url
+export function getWebsocketUrl(backendUrl: string): string {
+    return backendUrl.replace(/^http/, "ws");
+}
+
+export function getBackend(settings = loadBackendSettings()): ComfyBackend {
+    return settings.mock
+        ? mockBackend.withImageTransport(settings.imageTransport)
+        : new HttpBackend(getBackendUrl(settings), settings.imageTransport);
+}
+
+// every backend jobs can run on, the main one first
+export function getBackends(settings = loadBackendSettings()): ComfyBackend[] {
+    if (settings.mock) {
+        return [getBackend(settings)];
+    }
+    return [
+        getBackend(settings),
+        ...settings.extraHosts
+            .filter((host) => host.host)
+            .map((host) => new HttpBackend(getBackendUrl(host), host.imageTransport)),
+    ];
+}
+
+export function getTimelapseApiUrl(): string {
+    return loadBackendSettings().timelapseApiUrl;
+}
+
+// whether the backend has the nodes its image transport needs
+export function isBackendReady(status: BackendStatus, settings = loadBackendSettings()): boolean {
+    return status.connected && (status.hasLoadImageBase64 || settings.imageTransport === "upload");
+}
+
+export async function checkBackendStatus(settings = loadBackendSettings()): Promise<BackendStatus> {
+    const backend = getBackend(settings);
+    try {
+        const response = await backend.request("/system_stats");
+        if (!response.ok) {
+            return { connected: false, hasLoadImageBase64: false, error: `Backend returned ${response.status}` };
+        }
+        // object_info for a single node class is empty when the node isn't installed
+        const nodeInfo = await (await backend.request("/object_info/ETN_LoadImageBase64")).json();
+        return { connected: true, hasLoadImageBase64: !!nodeInfo.ETN_LoadImageBase64 };
+    } catch (err) {
+        return { connected: false, hasLoadImageBase64: false, error: `${err}` };
+    }
+}
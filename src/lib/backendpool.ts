@@ -0,0 +1,251 @@
+import { ComfyBackend, getBackends } from "./backend";
+import { ComfyFetcher } from "./comfyfetcher";
+import { ComfyObjectInfo, getInputSpec } from "./objectinfo";
+
+// health checks are reused for this long when routing jobs
+const healthTtl = 5000;
+// a backend that takes longer than this to list its queue counts as offline
+const healthTimeout = 5000;
+// node classes and models change rarely, but a restarted host may have new ones
+const objectInfoTtl = 5 * 60 * 1000;
+// while a job runs, its backend is checked this often...
+const watchInterval = 5000;
+// ...and given up on after this many failed checks in a row
+const maxMissedChecks = 2;
+
+export interface BackendHealth {
+    url: string;
+    online: boolean;
+    // prompts running or waiting on the backend, from all clients
+    queueDepth: number;
+    error?: string;
+}
+
+// What a workflow needs from a backend to run
+export interface BackendRequirements {
+    classTypes: string[];
+    // model files the workflow loads, by the node input that names them
+    models: { classType: string; input: string; name: string }[];
+}
+
+interface WorkflowNode {
+    class_type: string;
+    inputs: { [name: string]: unknown };
+}
+
+// loader nodes and the input that names their model file
+const modelInputs: { [classType: string]: string } = {
+    CheckpointLoaderSimple: "ckpt_name",
+    LoraLoader: "lora_name",
+    ControlNetLoader: "control_net_name",
+    UpscaleModelLoader: "model_name",
+};
+
+// Reads the requirements off an API-format workflow, after everything has been set on it
+export function workflowRequirements(workflow: object): BackendRequirements {
+    const nodes = Object.values(workflow as { [id: string]: WorkflowNode });
+    const models: BackendRequirements["models"] = [];
+    for (const node of nodes) {
+        const input = modelInputs[node.class_type];
+        const name = input && node.inputs[input];
+        if (typeof name === "string" && name) {
+            models.push({ classType: node.class_type, input, name });
+        }
+    }
+    return {
+        classTypes: Array.from(new Set(nodes.map((node) => node.class_type))),
+        models,
+    };
+}
+
+// Spreads jobs across the configured backends. Each job goes to the least-loaded
+// online backend that has its nodes and models, and moves to another one if its
+// backend drops while it runs.
+export class BackendPool {
+    private health = new Map<string, { health: Promise<BackendHealth>; checkedAt: number }>();
+    private objectInfo = new Map<string, { info: Promise<ComfyObjectInfo>; fetchedAt: number }>();
+    // jobs routed to each backend by this client that haven't finished
+    private assigned = new Map<string, number>();
+    // whether each backend answered its latest health check
+    private online = new Map<string, boolean>();
+
+    // Runs task on the best backend for the requirements. When the task fails because
+    // its backend went offline, it is run again from scratch on another one. The task
+    // registers with onAbandon how to drop its work from a backend it is moved off.
+    // Once isCancelled returns true, the task isn't started again anywhere.
+    async run<T>(
+        requirements: BackendRequirements,
+        task: (backend: ComfyBackend, onAbandon: (listener: () => void) => void) => Promise<T>,
+        isCancelled: () => boolean = () => false
+    ): Promise<T> {
+        const tried: string[] = [];
+        for (;;) {
+            const backend = await this.acquire(requirements, tried);
+            if (isCancelled()) {
+                this.release(backend);
+                throw new Error("Cancelled");
+            }
+            let abandonListener: (() => void) | undefined;
+            try {
+                return await this.watch(
+                    backend,
+                    task(backend, (listener) => {
+                        abandonListener = listener;
+                    })
+                );
+            } catch (err) {
+                tried.push(backend.url);
+                const remaining = getBackends().filter((b) => !tried.includes(b.url));
+                // failures on a backend that is still up would fail anywhere
+                if (remaining.length === 0 || (await this.getHealth(backend, true)).online) {
+                    throw err;
+                }
+                console.warn(`Backend ${backend.url} went offline, moving the job to another backend`, err);
+                // in case it comes back, don't leave the prompt queued there
+                try {
+                    abandonListener?.();
+                } catch (abandonErr) {
+                    console.warn(`Failed to cancel the job on ${backend.url}`, abandonErr);
+                }
+            } finally {
+                this.release(backend);
+            }
+        }
+    }
+
+    // the current health of every backend, checked now
+    checkAll(): Promise<BackendHealth[]> {
+        return Promise.all(getBackends().map((backend) => this.getHealth(backend, true)));
+    }
+
+    getAssigned(url: string): number {
+        return this.assigned.get(url) || 0;
+    }
+
+    // how many jobs can usefully run at once: one per backend not known to be offline
+    getCapacity(): number {
+        const available = getBackends().filter((backend) => this.online.get(backend.url) !== false);
+        return Math.max(available.length, 1);
+    }
+
+    private async acquire(requirements: BackendRequirements, exclude: string[]): Promise<ComfyBackend> {
+        const backends = getBackends().filter((backend) => !exclude.includes(backend.url));
+        // with nothing to choose from, leave it to the backend to report what's wrong
+        if (backends.length === 1 && exclude.length === 0) {
+            return this.assign(backends[0]);
+        }
+        const candidates = await Promise.all(
+            backends.map(async (backend) => {
+                const health = await this.getHealth(backend);
+                const missing = health.online ? await this.getMissing(backend, requirements) : [];
+                return { backend, health, missing };
+            })
+        );
+        const online = candidates.filter((candidate) => candidate.health.online);
+        if (online.length === 0) {
+            throw new Error("No backend is online");
+        }
+        const compatible = online.filter((candidate) => candidate.missing.length === 0);
+        if (compatible.length === 0) {
+            throw new Error(`No backend has everything the workflow needs. Missing: ${online[0].missing.join(", ")}`);
+        }
+        // the queue depth includes jobs we routed there earlier, so this overestimates
+        // busy backends a little, which only makes the spread more even
+        const load = (candidate: (typeof compatible)[number]) =>
+            candidate.health.queueDepth + this.getAssigned(candidate.backend.url);
+        // ties go to the earlier backend, so the main one is preferred
+        const best = compatible.reduce((a, b) => (load(b) < load(a) ? b : a));
+        return this.assign(best.backend);
+    }
+
+    private assign(backend: ComfyBackend): ComfyBackend {
+        this.assigned.set(backend.url, this.getAssigned(backend.url) + 1);
+        return backend;
+    }
+
+    private release(backend: ComfyBackend) {
+        this.assigned.set(backend.url, Math.max(this.getAssigned(backend.url) - 1, 0));
+    }
+
+    // Settles with the task, or rejects once the backend stops answering health checks.
+    // The websocket alone would only notice after its inactivity timeout.
+    private watch<T>(backend: ComfyBackend, task: Promise<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            let missed = 0;
+            const interval = window.setInterval(async () => {
+                const health = await this.getHealth(backend, true);
+                missed = health.online ? 0 : missed + 1;
+                if (missed >= maxMissedChecks) {
+                    reject(new Error(`Lost connection to ${backend.url}`));
+                }
+            }, watchInterval);
+            task.then(resolve, reject).finally(() => window.clearInterval(interval));
+        });
+    }
+
+    // concurrent callers share one request per backend
+    private getHealth(backend: ComfyBackend, force = false): Promise<BackendHealth> {
+        const cached = this.health.get(backend.url);
+        if (cached && !force && Date.now() - cached.checkedAt < healthTtl) {
+            return cached.health;
+        }
+        const health = this.checkHealth(backend);
+        this.health.set(backend.url, { health, checkedAt: Date.now() });
+        return health;
+    }
+
+    private async checkHealth(backend: ComfyBackend): Promise<BackendHealth> {
+        const controller = new AbortController();
+        const timeout = window.setTimeout(() => controller.abort(), healthTimeout);
+        try {
+            const queueDepth = await new ComfyFetcher(backend).fetch_queue_depth(controller.signal);
+            this.online.set(backend.url, true);
+            return { url: backend.url, online: true, queueDepth };
+        } catch (err) {
+            // refetch what it has once it's back, it may have been restarted with other models
+            this.objectInfo.delete(backend.url);
+            this.online.set(backend.url, false);
+            return { url: backend.url, online: false, queueDepth: 0, error: `${err}` };
+        } finally {
+            window.clearTimeout(timeout);
+        }
+    }
+
+    // the node classes and models in requirements that the backend doesn't have
+    private async getMissing(backend: ComfyBackend, requirements: BackendRequirements): Promise<string[]> {
+        let objectInfo: ComfyObjectInfo;
+        try {
+            objectInfo = await this.getObjectInfo(backend);
+        } catch (err) {
+            this.objectInfo.delete(backend.url);
+            return [`object_info (${err})`];
+        }
+        const nodeClasses = objectInfo as unknown as { [classType: string]: unknown };
+        const missing = requirements.classTypes.filter((classType) => {
+            // uploaded images are loaded with stock nodes instead
+            if (classType === "ETN_LoadImageBase64" && backend.imageTransport === "upload") {
+                return !nodeClasses.LoadImage || !nodeClasses.LoadImageMask;
+            }
+            return !nodeClasses[classType];
+        });
+        for (const model of requirements.models) {
+            const choices = getInputSpec(objectInfo, model.classType, model.input)?.[0];
+            if (Array.isArray(choices) && !choices.includes(model.name)) {
+                missing.push(model.name);
+            }
+        }
+        return missing;
+    }
+
+    private getObjectInfo(backend: ComfyBackend): Promise<ComfyObjectInfo> {
+        const cached = this.objectInfo.get(backend.url);
+        if (cached && Date.now() - cached.fetchedAt < objectInfoTtl) {
+            return cached.info;
+        }
+        const info = new ComfyFetcher(backend).fetch_object_info();
+        this.objectInfo.set(backend.url, { info, fetchedAt: Date.now() });
+        return info;
+    }
+}
+
+export const backendPool = new BackendPool();
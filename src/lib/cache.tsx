@@ -12,4 +12,9 @@ export function useCache<T>(key: string, initialValue: T): [T, React.Dispatch<Re
   
     return [value, setValue];
   }
-  
\ No newline at end of file
+  
+// read a value stored by useCache from outside of a component
+export function getCachedValue<T>(key: string, defaultValue: T): T {
+    const cachedValue = localStorage.getItem(key);
+    return cachedValue !== null ? JSON.parse(cachedValue) : defaultValue;
+}
@@ -1,11 +1,10 @@
 import axios from 'axios';
-
-const baseURL = 'http://localhost:3000/api'; // Adjust the base URL as needed
+import { getTimelapseApiUrl } from './backend';
 
 // Helper function to create a new session
 export async function createSession(): Promise<string> {
     try {
-        const response = await axios.post(`${baseURL}/session`);
+        const response = await axios.post(`${getTimelapseApiUrl()}/session`);
         console.log('Session created:', response.data.uuid);
         return response.data.uuid;
     } catch (error) {
@@ -17,7 +16,7 @@ export async function createSession(): Promise<string> {
 // Helper function to upload an image
 export async function uploadImage(sessionId: string, imageData: string): Promise<void> {
     try {
-        await axios.post(`${baseURL}/session/${sessionId}/image`, { image: imageData });
+        await axios.post(`${getTimelapseApiUrl()}/session/${sessionId}/image`, { image: imageData });
         console.log('Image uploaded successfully');
     } catch (error) {
         console.error('Failed to upload image', error);
@@ -28,7 +27,7 @@ export async function uploadImage(sessionId: string, imageData: string): Promise
 // Helper function to generate a video
 export async function generateVideo(sessionId: string): Promise<void> {
     try {
-        await axios.post(`${baseURL}/session/${sessionId}/video`);
+        await axios.post(`${getTimelapseApiUrl()}/session/${sessionId}/video`);
         console.log('Video generation started');
     } catch (error) {
         console.error('Failed to start video generation', error);
@@ -38,14 +37,14 @@ export async function generateVideo(sessionId: string): Promise<void> {
 
 // Function to provide the download link for the video
 export function getVideoDownloadLink(sessionId: string): string {
-    const downloadLink = `${baseURL}/session/${sessionId}/video`;
+    const downloadLink = `${getTimelapseApiUrl()}/session/${sessionId}/video`;
     console.log(`Video can be downloaded from: ${downloadLink}`);
     return downloadLink;
 }
 
 export function deleteSession(sessionId: string): void {
     try {
-        axios.delete(`${baseURL}/session/${sessionId}`);
+        axios.delete(`${getTimelapseApiUrl()}/session/${sessionId}`);
         console.log('Session deleted:', sessionId);
     } catch (error) {
         console.error('Failed to delete session', error);
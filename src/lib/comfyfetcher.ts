@@ -1,26 +1,117 @@
 import { ComfyObjectInfo } from "./objectinfo";
+import { ComfyBackend } from "./backend";
+
+// where an output image is stored on the backend, as its /view endpoint expects it
+export interface ComfyOutputImage {
+    filename: string;
+    subfolder: string;
+    type: string;
+}
+
+export interface ComfyHistoryEntry {
+    outputs: {
+        [nodeId: string]: {
+            images?: ComfyOutputImage[];
+            text?: string[];
+        };
+    };
+    status?: {
+        status_str: string;
+        completed: boolean;
+    };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
 
 export class ComfyFetcher {
-    private url: string;
-    constructor(url: string) {
-        this.url = url;
+    private backend: ComfyBackend;
+    constructor(backend: ComfyBackend) {
+        this.backend = backend;
+    }
+    // downloads an output image as a data url
+    async fetch_image(image: ComfyOutputImage): Promise<string> {
+        const params = new URLSearchParams({
+            filename: image.filename,
+            subfolder: image.subfolder || "",
+            type: image.type || "output",
+            rand: `${Math.random()}`,
+        });
+        const response = await this.backend.request(`/view?${params}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${image.filename}: backend returned ${response.status}`);
+        }
+        return blobToDataUrl(await response.blob());
     }
-    async fetch_image(filename: string): Promise<string> {
-        return new Promise(async (resolve, reject) => {
-            const response = await fetch(`${this.url}/view?filename=${filename}&subfolder=&type=output&rand=${Math.random()}`);
-            const blob = await response.blob();
-            // base64 encode the image
-            const reader = new FileReader();
-            reader.readAsDataURL(blob);
-            reader.onloadend = () => {
-                const dataUrl = reader.result;
-                resolve(dataUrl as string);
-            };
+
+    // Puts an image in the backend's input folder and returns its path there,
+    // as the LoadImage and LoadImageMask nodes expect it
+    async upload_image(image: Blob, filename: string, subfolder: string): Promise<string> {
+        const form = new FormData();
+        form.append("image", image, filename);
+        form.append("type", "input");
+        form.append("subfolder", subfolder);
+        form.append("overwrite", "true");
+        const response = await this.backend.request("/upload/image", {
+            method: "POST",
+            body: form,
         });
+        if (!response.ok) {
+            throw new Error(`Image upload failed: backend returned ${response.status}`);
+        }
+        const result = await response.json();
+        return result.subfolder ? `${result.subfolder}/${result.name}` : result.name;
+    }
+
+    // Removes the prompt from the queue if it hasn't started yet, otherwise interrupts it.
+    // Other prompts on the backend, from this client or others, are left alone.
+    async cancel_prompt(promptId: string): Promise<void> {
+        const response = await this.backend.request(`/queue`);
+        if (!response.ok) {
+            throw new Error(`Backend returned ${response.status}`);
+        }
+        const queue = await response.json();
+        // queue entries are [number, prompt_id, prompt, extra_data, outputs_to_execute]
+        const running = ((queue.queue_running || []) as unknown[][]).some((entry) => entry[1] === promptId);
+        if (running) {
+            // older ComfyUI versions ignore the prompt_id, but it's only sent while ours runs
+            await this.backend.request(`/interrupt`, {
+                method: "POST",
+                body: JSON.stringify({ prompt_id: promptId }),
+            });
+        } else {
+            await this.backend.request(`/queue`, {
+                method: "POST",
+                body: JSON.stringify({ delete: [promptId] }),
+            });
+        }
+    }
+
+    // undefined until the prompt has finished
+    async fetch_history(promptId: string): Promise<ComfyHistoryEntry | undefined> {
+        const response = await this.backend.request(`/history/${promptId}`);
+        const json = await response.json();
+        return json[promptId];
+    }
+
+    // how many prompts are running or waiting on the backend, from all clients
+    async fetch_queue_depth(signal?: AbortSignal): Promise<number> {
+        const response = await this.backend.request(`/queue`, { signal });
+        if (!response.ok) {
+            throw new Error(`Backend returned ${response.status}`);
+        }
+        const queue = await response.json();
+        return (queue.queue_running?.length || 0) + (queue.queue_pending?.length || 0);
     }
 
     async fetch_object_info(): Promise<ComfyObjectInfo> {
-        const response = await fetch(`${this.url}/object_info`);
+        const response = await this.backend.request(`/object_info`);
         const json = await response.json();
         console.log("object info", json);
         return json;
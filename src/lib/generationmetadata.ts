@@ -0,0 +1,117 @@
+import { SelectedLora } from "./loras";
+import { readPngText, writePngText } from "./pngtext";
+import { loadGenerationSettings, saveGenerationSettings } from "./generationsettings";
+
+// What produced a generation, embedded in exported PNGs
+export interface GenerationMetadata {
+    mode: string;
+    prompt: string;
+    negativePrompt: string;
+    seed: number;
+    denoise: number;
+    // empty when the workflow's own checkpoint was used
+    model: string;
+    loras: SelectedLora[];
+    // the API-format workflow as submitted, without its input images
+    workflow: object;
+}
+
+interface WorkflowNode {
+    class_type: string;
+    inputs: { [name: string]: unknown };
+    _meta?: { title?: string };
+}
+
+// ComfyUI stores the API-format workflow under "prompt"; the rest goes in our own chunk
+const promptKeyword = "prompt";
+const metadataKeyword = "smartdraw";
+
+// the cache keys AIControls keeps its denoise values under, by mode
+const denoiseKeys: { [mode: string]: string } = {
+    refine: "denoise",
+    inpaint: "inpaintDenoise",
+    outpaint: "inpaintDenoise",
+    sketch: "sketchDenoise",
+};
+
+// Base64 input images would make the metadata larger than the image itself
+export function withoutInputImages(workflow: object): object {
+    const nodes = JSON.parse(JSON.stringify(workflow)) as { [id: string]: WorkflowNode };
+    for (const node of Object.values(nodes)) {
+        if (node.class_type === "ETN_LoadImageBase64") {
+            node.inputs.image = "";
+        }
+    }
+    return nodes;
+}
+
+export function embedGenerationMetadata(png: Uint8Array, metadata: GenerationMetadata): Uint8Array {
+    const { workflow, ...settings } = metadata;
+    return writePngText(png, {
+        [promptKeyword]: JSON.stringify(workflow),
+        [metadataKeyword]: JSON.stringify(settings),
+    });
+}
+
+// Settings for images generated by ComfyUI itself, read from the workflow. Follows the
+// first sampler's conditioning links, so it works without our node titles.
+function metadataFromWorkflow(workflow: { [id: string]: WorkflowNode }): GenerationMetadata | undefined {
+    const nodes = Object.values(workflow);
+    const sampler =
+        nodes.find((node) => node._meta?.title === "sampler") ||
+        nodes.find((node) => node.class_type === "KSampler");
+    if (!sampler) {
+        return;
+    }
+    const text = (link: unknown): string => {
+        const node = Array.isArray(link) ? workflow[link[0]] : undefined;
+        return node && typeof node.inputs.text === "string" ? node.inputs.text : "";
+    };
+    const checkpoint = nodes.find((node) => node.class_type === "CheckpointLoaderSimple");
+    return {
+        mode: "refine",
+        prompt: text(sampler.inputs.positive),
+        negativePrompt: text(sampler.inputs.negative),
+        seed: typeof sampler.inputs.seed === "number" ? sampler.inputs.seed : 0,
+        denoise: typeof sampler.inputs.denoise === "number" ? sampler.inputs.denoise : 1,
+        model: checkpoint ? `${checkpoint.inputs.ckpt_name}` : "",
+        loras: nodes
+            .filter((node) => node.class_type === "LoraLoader" && node._meta?.title?.startsWith("selected_lora_"))
+            .map((node) => ({
+                name: `${node.inputs.lora_name}`,
+                modelStrength: Number(node.inputs.strength_model),
+                clipStrength: Number(node.inputs.strength_clip),
+                enabled: true,
+            })),
+        workflow,
+    };
+}
+
+// Returns the generation settings stored in a PNG, by us or by ComfyUI
+export function extractGenerationMetadata(png: Uint8Array): GenerationMetadata | undefined {
+    const text = readPngText(png);
+    try {
+        const workflow = text[promptKeyword] ? JSON.parse(text[promptKeyword]) : undefined;
+        if (text[metadataKeyword]) {
+            return { ...JSON.parse(text[metadataKeyword]), workflow: workflow || {} };
+        }
+        if (workflow && typeof workflow === "object") {
+            return metadataFromWorkflow(workflow);
+        }
+    } catch (err) {
+        console.error("Could not parse PNG metadata", err);
+    }
+}
+
+// Puts the settings where the generation panel reads them from
+export function restoreGenerationMetadata(metadata: GenerationMetadata) {
+    localStorage.setItem("prompt", JSON.stringify(metadata.prompt));
+    localStorage.setItem("negativePrompt", JSON.stringify(metadata.negativePrompt));
+    localStorage.setItem("seed", JSON.stringify(metadata.seed));
+    localStorage.setItem(denoiseKeys[metadata.mode] || denoiseKeys.refine, JSON.stringify(metadata.denoise));
+    saveGenerationSettings({
+        ...loadGenerationSettings(),
+        model: metadata.model,
+        loras: metadata.loras || [],
+    });
+}
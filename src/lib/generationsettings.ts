@@ -0,0 +1,71 @@
+import { SelectedLora } from "./loras";
+import { Img2Img } from "./workflows";
+import { getCachedValue } from "./cache";
+
+// Choices that apply to every generation, regardless of workflow.
+// Empty values keep whatever the workflow JSON specifies.
+export interface GenerationSettings {
+    model: string;
+    loras: SelectedLora[];
+    sampler: string;
+    scheduler: string;
+}
+
+export const generationSettingsKey = "generationSettings";
+
+export const defaultGenerationSettings: GenerationSettings = {
+    model: "",
+    loras: [],
+    sampler: "",
+    scheduler: "",
+};
+
+// Reference images themselves live on the renderer; only how they're used is cached.
+export interface ReferenceImageSettings {
+    enabled: boolean;
+    weight: number;
+}
+
+export const referenceImageSettingsKey = "referenceImageSettings";
+
+export const defaultReferenceImageSettings: ReferenceImageSettings = {
+    enabled: true,
+    weight: 1,
+};
+
+export function loadGenerationSettings(): GenerationSettings {
+    return {
+        ...defaultGenerationSettings,
+        ...getCachedValue<Partial<GenerationSettings>>(generationSettingsKey, {}),
+    };
+}
+
+export function saveGenerationSettings(settings: GenerationSettings) {
+    localStorage.setItem(generationSettingsKey, JSON.stringify(settings));
+}
+
+export function applyGenerationSettings(img2img: Img2Img, settings: GenerationSettings) {
+    if (settings.model) {
+        img2img.set_selected_model(settings.model);
+    }
+    if (settings.sampler) {
+        img2img.set_sampler(settings.sampler);
+    }
+    if (settings.scheduler) {
+        img2img.set_scheduler(settings.scheduler);
+    }
+    if (settings.loras.length > 0) {
+        img2img.set_selected_loras(settings.loras);
+    }
+}
+
+
+// Feeds the reference images to the workflow's IP-Adapter. Workflows without one ignore them.
+export function applyReferenceImages(img2img: Img2Img, encodedImages: string[]) {
+    const settings = getCachedValue(referenceImageSettingsKey, defaultReferenceImageSettings);
+    if (!settings.enabled || encodedImages.length === 0 || !img2img.supports_reference_images()) {
+        return;
+    }
+    img2img.set_reference_images(encodedImages);
+    img2img.set_reference_images_weight(settings.weight);
+}
@@ -1,4 +1,3 @@
-import { Buffer } from "buffer";
 import { Rect } from "../image-editor/models";
 import saveAs from "file-saver";
 
@@ -6,6 +5,7 @@ export interface SplitResult {
     numTilesX: number;
     numTilesY: number;
     tileSize: number;
+    overlap: number;
     imageWidth: number;
     imageHeight: number;
     tiles: ImageData[][]; // [x][y]
@@ -75,15 +75,16 @@ export function loadImageDataElement(
     return new Promise((resolve, reject) => {
         const src = imageData;
         const imageElement = new Image();
-        imageElement.src = src;
         imageElement.onload = () => {
             resolve(imageElement);
         };
+        imageElement.onerror = () => reject(new Error("Failed to decode image"));
+        imageElement.src = src;
     });
 }
 
 // split image for individual upscales
-export function splitImage(initImage: ImageData) {
+export function splitImage(initImage: ImageData): SplitResult | null {
     // Check if the image area is larger than 512x512
     if (initImage.width * initImage.height > 512 * 512) {
         // use a temporary canvas to split the image
@@ -123,6 +124,7 @@ export function splitImage(initImage: ImageData) {
                 numTilesX: num_tiles_x,
                 numTilesY: num_tiles_y,
                 tileSize: tile_size,
+                overlap: 32,
                 imageWidth: initImage.width,
                 imageHeight: initImage.height,
                 tiles,
@@ -136,13 +138,17 @@ export function splitImage(initImage: ImageData) {
 }
 
 // merge the tiles back into a single image
-// tiles should be 2x original size
-export function mergeTiles(splitResult: SplitResult): ImageData {
+// tiles should be `scale` times their original size. Overlapping edges are
+// feathered so each tile blends into the ones pasted before it.
+export function mergeTiles(splitResult: SplitResult, scale = 1): ImageData {
     // create a new image
     const canvas = document.createElement("canvas");
     try {
-        canvas.width = splitResult.imageWidth;
-        canvas.height = splitResult.imageHeight;
+        const imageWidth = splitResult.imageWidth * scale;
+        const imageHeight = splitResult.imageHeight * scale;
+        const step = (splitResult.tileSize - splitResult.overlap) * scale;
+        canvas.width = imageWidth;
+        canvas.height = imageHeight;
         const ctx = canvas.getContext("2d");
         if (!ctx) {
             throw new Error("Could not get canvas context");
@@ -151,22 +157,31 @@ export function mergeTiles(splitResult: SplitResult): ImageData {
             for (let y = 0; y < splitResult.numTilesY; y++) {
                 // load the tile
                 const tile = splitResult.tiles[x][y];
+                const tileRect = {
+                    x: x * step,
+                    y: y * step,
+                    width: tile.width,
+                    height: tile.height,
+                };
+                if (splitResult.overlap > 0) {
+                    // only the left and top edges overlap tiles that are already pasted
+                    featherEdges(
+                        tileRect,
+                        imageWidth,
+                        imageHeight,
+                        tile,
+                        splitResult.overlap * scale,
+                        true
+                    );
+                }
                 const tileCanvas = imageDataToCanvas(tile);
 
                 // paste the tile into the new image
-                ctx.drawImage(
-                    tileCanvas,
-                    x * (splitResult.tileSize - 64),
-                    y * (splitResult.tileSize - 64)
-                );
+                ctx.drawImage(tileCanvas, tileRect.x, tileRect.y);
+                tileCanvas.remove();
             }
         }
-        return ctx.getImageData(
-            0,
-            0,
-            splitResult.imageWidth,
-            splitResult.imageHeight
-        );
+        return ctx.getImageData(0, 0, imageWidth, imageHeight);
     } finally {
         canvas.remove();
     }
@@ -184,6 +199,40 @@ export function imageDataToCanvas(imageData: ImageData): HTMLCanvasElement {
     return canvas;
 }
 
+export function imageDataToEncodedImage(
+    imageData: ImageData,
+    format: "png" | "webp" | "jpeg"
+): string {
+    const canvas = imageDataToCanvas(imageData);
+    try {
+        // extract base64 data from data url
+        return canvas.toDataURL(`image/${format}`).split(",")[1];
+    } finally {
+        canvas.remove();
+    }
+}
+
+// draw an image scaled to width x height and return its pixels
+export function imageToImageData(
+    image: HTMLImageElement | HTMLCanvasElement,
+    width: number,
+    height: number
+): ImageData {
+    const canvas = document.createElement("canvas");
+    try {
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+            throw new Error("Could not get canvas context");
+        }
+        ctx.drawImage(image, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    } finally {
+        canvas.remove();
+    }
+}
+
 // extract resizing logic from above function into a reusable resizeImage function
 export function resizeImage(
     image: HTMLCanvasElement,
@@ -222,19 +271,23 @@ export function featherEdges(
     imageWidth: number,
     imageHeight: number,
     imageData: ImageData,
-    featherWidth?: number
+    featherWidth?: number,
+    upscale?: boolean
 ) {
     const featherLeftEdge = selectionOverlay.x != 0;
     const featherRightEdge =
-        selectionOverlay.x + selectionOverlay.width != imageWidth;
+        !upscale && selectionOverlay.x + selectionOverlay.width != imageWidth;
     const featherTopEdge = selectionOverlay.y != 0;
     const featherBottomEdge =
-        selectionOverlay.y + selectionOverlay.height != imageHeight;
+        !upscale && selectionOverlay.y + selectionOverlay.height != imageHeight;
 
     const baseWidth = Math.min(selectionOverlay.width, selectionOverlay.height);
     if (!featherWidth) {
         featherWidth = Math.floor(baseWidth / 8);
     }
+    // the last tile of an upscale can be narrower than the overlap, and feathering
+    // past its edge would write into the next row
+    featherWidth = Math.min(featherWidth, baseWidth);
 
     if (featherTopEdge) {
         for (let y = 0; y < featherWidth; y++) {
@@ -533,9 +586,9 @@ export function decodeImage(encodedImage: string): Promise<HTMLImageElement> {
     });
 }
 
-export function binaryImageToDataBase64(binaryImage: any): string {
-    const buf = Buffer.from(binaryImage, "binary");
-    return buf.toString("base64");
+// binaryImage is a "binary" string (one char per byte), which btoa accepts as-is
+export function binaryImageToDataBase64(binaryImage: string): string {
+    return btoa(binaryImage);
 }
 
 export function resizeEncodedImage(
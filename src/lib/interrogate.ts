@@ -0,0 +1,17 @@
+import { Interrogate } from "./workflows";
+import { backendPool, workflowRequirements } from "./backendpool";
+import captionWorkflow from "../workflows/florence2_caption_api.json";
+
+// Describes an image in words with the bundled Florence-2 captioning workflow,
+// which needs the ComfyUI-Florence2 and ComfyUI-Custom-Scripts nodes
+export async function interrogateImage(
+    encodedImage: string,
+    onProgress?: (progress: number) => void
+): Promise<string> {
+    const caption = await backendPool.run(workflowRequirements(captionWorkflow), (backend, onAbandon) => {
+        const interrogate = new Interrogate(captionWorkflow, backend);
+        onAbandon(() => interrogate.cancel());
+        return interrogate.run(encodedImage, onProgress);
+    });
+    return caption.trim();
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { backendPool } from "./backendpool";
+
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface Job {
+    id: number;
+    name: string;
+    status: JobStatus;
+    progress: number;
+    // the workflow node the backend is executing, while running
+    executingNode?: string;
+    error?: string;
+}
+
+// Handed to a running job so it can report progress and react to cancellation
+export interface JobContext {
+    onProgress: (progress: number) => void;
+    onExecuting: (node: string) => void;
+    onCancel: (listener: () => void) => void;
+}
+
+// Runs one attempt of a job. Called again from scratch on retry.
+export type JobRunner = (context: JobContext) => Promise<void>;
+
+interface QueueEntry {
+    job: Job;
+    runner: JobRunner;
+    cancelListener?: () => void;
+}
+
+// Runs generation jobs in the order they were added, as many at once as getCapacity allows.
+export class JobQueue {
+    private entries: QueueEntry[] = [];
+    private nextId = 1;
+    // runners that haven't returned yet, including cancelled ones still winding down
+    private active = 0;
+    private changeListeners: ((jobs: Job[]) => void)[] = [];
+
+    constructor(private readonly getCapacity: () => number = () => 1) {}
+
+    addChangeListener(listener: (jobs: Job[]) => void) {
+        this.changeListeners.push(listener);
+    }
+
+    removeChangeListener(listener: (jobs: Job[]) => void) {
+        this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    }
+
+    getJobs(): Job[] {
+        return this.entries.map((entry) => ({ ...entry.job }));
+    }
+
+    add(name: string, runner: JobRunner): Job {
+        const entry: QueueEntry = {
+            job: { id: this.nextId++, name, status: "pending", progress: 0 },
+            runner,
+        };
+        this.entries.push(entry);
+        this.notifyChangeListeners();
+        this.process();
+        return { ...entry.job };
+    }
+
+    cancel(id: number) {
+        const entry = this.find(id);
+        if (!entry || (entry.job.status !== "pending" && entry.job.status !== "running")) {
+            return;
+        }
+        const running = entry.job.status === "running";
+        entry.job.status = "cancelled";
+        this.notifyChangeListeners();
+        if (running && entry.cancelListener) {
+            entry.cancelListener();
+        }
+    }
+
+    retry(id: number) {
+        const entry = this.find(id);
+        if (!entry || (entry.job.status !== "failed" && entry.job.status !== "cancelled")) {
+            return;
+        }
+        // retried jobs go to the back of the queue
+        this.entries = this.entries.filter((e) => e !== entry);
+        this.entries.push(entry);
+        entry.job = { ...entry.job, status: "pending", progress: 0, executingNode: undefined, error: undefined };
+        this.notifyChangeListeners();
+        this.process();
+    }
+
+    remove(id: number) {
+        const entry = this.find(id);
+        if (!entry || entry.job.status === "running") {
+            return;
+        }
+        this.entries = this.entries.filter((e) => e !== entry);
+        this.notifyChangeListeners();
+    }
+
+    clearFinished() {
+        this.entries = this.entries.filter(
+            (entry) => entry.job.status === "pending" || entry.job.status === "running"
+        );
+        this.notifyChangeListeners();
+    }
+
+    private find(id: number): QueueEntry | undefined {
+        return this.entries.find((entry) => entry.job.id === id);
+    }
+
+    private process() {
+        let entry = this.entries.find((e) => e.job.status === "pending");
+        while (entry && this.active < this.getCapacity()) {
+            this.active++;
+            this.runEntry(entry).finally(() => {
+                this.active--;
+                this.process();
+            });
+            entry = this.entries.find((e) => e.job.status === "pending");
+        }
+    }
+
+    private async runEntry(entry: QueueEntry) {
+        const job = entry.job;
+        job.status = "running";
+        entry.cancelListener = undefined;
+        // the listener this run installed, if any
+        let ownListener: (() => void) | undefined;
+        this.notifyChangeListeners();
+        const context: JobContext = {
+            onProgress: (progress) => {
+                if (job.status === "running") {
+                    job.progress = progress;
+                    this.notifyChangeListeners();
+                }
+            },
+            onExecuting: (node) => {
+                if (job.status === "running") {
+                    job.executingNode = node;
+                    this.notifyChangeListeners();
+                }
+            },
+            onCancel: (listener) => {
+                // a run still unwinding after its job was retried mustn't take over the new run
+                if (entry.job === job) {
+                    entry.cancelListener = listener;
+                    ownListener = listener;
+                }
+            },
+        };
+        try {
+            await entry.runner(context);
+            if (job.status === "running") {
+                job.status = "completed";
+                job.progress = 1;
+            }
+        } catch (err) {
+            // cancelled jobs reject too, but keep their status
+            if (job.status === "running") {
+                console.error(`Job "${job.name}" failed`, err);
+                job.status = "failed";
+                job.error = `${err}`;
+            }
+        }
+        if (entry.cancelListener === ownListener) {
+            entry.cancelListener = undefined;
+        }
+        job.executingNode = undefined;
+        this.notifyChangeListeners();
+    }
+
+    private notifyChangeListeners() {
+        const jobs = this.getJobs();
+        for (const listener of this.changeListeners) {
+            listener(jobs);
+        }
+    }
+}
+
+// one job per backend, so separate generations spread across the pool
+export const jobQueue = new JobQueue(() => backendPool.getCapacity());
+
+// keeps a component in sync with the queue
+export function useJobs(): Job[] {
+    const [jobs, setJobs] = useState<Job[]>(() => jobQueue.getJobs());
+
+    useEffect(() => {
+        jobQueue.addChangeListener(setJobs);
+        return () => jobQueue.removeChangeListener(setJobs);
+    }, []);
+
+    return jobs;
+}
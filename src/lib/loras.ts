@@ -1,4 +1,6 @@
 export interface SelectedLora {
     name: string;
-    strength: number;
+    modelStrength: number;
+    clipStrength: number;
+    enabled: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,418 @@
+import { BackendSocket, ComfyBackend, ImageTransport } from "./backend";
+import { ComfyHistoryEntry } from "./comfyfetcher";
+import { loadImageDataElement } from "./imageutil";
+import { sleep } from "./sleep";
+
+// Offline stand-in for ComfyUI. It runs entirely in the browser, speaks the same
+// HTTP and websocket protocol, and returns deterministic results: generations are
+// a blurred copy of the input tinted by the seed, upscales a 2x resample.
+
+const stepDelay = 50;
+const maxSteps = 20;
+// send a sampling preview every this many steps
+const previewInterval = 5;
+
+interface MockNode {
+    class_type: string;
+    inputs: { [name: string]: unknown };
+    _meta?: { title?: string };
+}
+
+interface MockPrompt {
+    id: string;
+    clientId: string;
+    workflow: { [id: string]: MockNode };
+}
+
+const mockObjectInfo = {
+    CheckpointLoaderSimple: {
+        input: { required: { ckpt_name: [["mock_checkpoint.safetensors"]] } },
+    },
+    LoraLoader: {
+        input: {
+            required: {
+                lora_name: [["mock_detail.safetensors", "mock_style.safetensors"]],
+                strength_model: ["FLOAT", { default: 1, min: -20, max: 20, step: 0.01 }],
+                strength_clip: ["FLOAT", { default: 1, min: -20, max: 20, step: 0.01 }],
+            },
+        },
+    },
+    KSampler: {
+        input: {
+            required: {
+                seed: ["INT", { default: 0, min: 0, max: Number.MAX_SAFE_INTEGER }],
+                steps: ["INT", { default: 20, min: 1, max: 10000 }],
+                cfg: ["FLOAT", { default: 8, min: 0, max: 100, step: 0.1 }],
+                sampler_name: [["euler", "euler_ancestral", "dpmpp_2m", "lcm"]],
+                scheduler: [["normal", "karras", "exponential", "sgm_uniform"]],
+                denoise: ["FLOAT", { default: 1, min: 0, max: 1, step: 0.01 }],
+            },
+        },
+    },
+    ETN_LoadImageBase64: {
+        input: { required: { image: ["STRING", { multiline: false }] } },
+    },
+    LoadImage: {
+        input: { required: { image: [[]] } },
+    },
+    LoadImageMask: {
+        input: { required: { image: [[]], channel: [["alpha", "red", "green", "blue"]] } },
+    },
+};
+
+function jsonResponse(data: unknown, status = 200): Response {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+class MockSocket implements BackendSocket {
+    readyState: number = WebSocket.CONNECTING;
+    onopen: ((event: Event) => void) | null = null;
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    onclose: ((event: CloseEvent) => void) | null = null;
+    private listeners: { [type: string]: (() => void)[] } = { open: [], close: [] };
+
+    constructor(private readonly backend: MockBackend, readonly clientId: string) {}
+
+    addEventListener(type: "open" | "close", listener: () => void) {
+        this.listeners[type].push(listener);
+    }
+
+    open() {
+        this.readyState = WebSocket.OPEN;
+        if (this.onopen) {
+            this.onopen(new Event("open"));
+        }
+        this.listeners.open.forEach((listener) => listener());
+    }
+
+    send(message: object) {
+        if (this.readyState === WebSocket.OPEN && this.onmessage) {
+            this.onmessage(new MessageEvent("message", { data: JSON.stringify(message) }));
+        }
+    }
+
+    sendBinary(data: ArrayBuffer) {
+        if (this.readyState === WebSocket.OPEN && this.onmessage) {
+            this.onmessage(new MessageEvent("message", { data }));
+        }
+    }
+
+    close() {
+        if (this.readyState === WebSocket.CLOSED) {
+            return;
+        }
+        this.readyState = WebSocket.CLOSED;
+        this.backend.removeSocket(this);
+        if (this.onclose) {
+            this.onclose(new CloseEvent("close"));
+        }
+        this.listeners.close.forEach((listener) => listener());
+    }
+}
+
+export class MockBackend implements ComfyBackend {
+    readonly url = "mock://comfyui";
+    readonly imageTransport: ImageTransport = "base64";
+
+    private nextPromptNumber = 1;
+    private queue: MockPrompt[] = [];
+    private running: MockPrompt | undefined;
+    private interrupted = false;
+    private history: { [promptId: string]: ComfyHistoryEntry } = {};
+    private images: { [filename: string]: Blob } = {};
+    private sockets: MockSocket[] = [];
+    // uploaded input images, by their path relative to the input folder
+    private inputImages: { [path: string]: Blob } = {};
+
+    // the same mock, sharing its queue and images, with a different image transport
+    withImageTransport(imageTransport: ImageTransport): ComfyBackend {
+        return {
+            url: this.url,
+            imageTransport,
+            request: (path, init) => this.request(path, init),
+            openSocket: (path) => this.openSocket(path),
+        };
+    }
+
+    async request(path: string, init?: RequestInit): Promise<Response> {
+        const url = new URL(path, "http://mock");
+        const method = init?.method || "GET";
+        const body = typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+
+        if (method === "POST" && url.pathname === "/prompt") {
+            return this.queuePrompt(body);
+        }
+        if (method === "POST" && url.pathname === "/upload/image" && init?.body instanceof FormData) {
+            return this.uploadImage(init.body);
+        }
+        if (method === "GET" && url.pathname === "/queue") {
+            // ComfyUI lists [number, prompt_id, prompt, extra_data, outputs_to_execute]
+            const entry = (prompt: MockPrompt, i: number) => [i, prompt.id, prompt.workflow, {}, []];
+            return jsonResponse({
+                queue_running: this.running ? [entry(this.running, 0)] : [],
+                queue_pending: this.queue.map((prompt, i) => entry(prompt, i + 1)),
+            });
+        }
+        if (method === "POST" && url.pathname === "/queue") {
+            const ids: string[] = body?.delete || [];
+            this.queue = this.queue.filter((prompt) => !ids.includes(prompt.id));
+            this.broadcastStatus();
+            return jsonResponse({});
+        }
+        if (method === "POST" && url.pathname === "/interrupt") {
+            if (this.running && (!body?.prompt_id || body.prompt_id === this.running.id)) {
+                this.interrupted = true;
+            }
+            return jsonResponse({});
+        }
+        if (url.pathname === "/view") {
+            const image = this.images[url.searchParams.get("filename") || ""];
+            return image ? new Response(image) : jsonResponse({ error: "Not found" }, 404);
+        }
+        if (url.pathname === "/object_info") {
+            return jsonResponse(mockObjectInfo);
+        }
+        if (url.pathname.startsWith("/object_info/")) {
+            const classType = url.pathname.substring("/object_info/".length);
+            const info = (mockObjectInfo as { [classType: string]: object })[classType];
+            return jsonResponse(info ? { [classType]: info } : {});
+        }
+        if (url.pathname.startsWith("/history/")) {
+            const promptId = url.pathname.substring("/history/".length);
+            return jsonResponse(this.history[promptId] ? { [promptId]: this.history[promptId] } : {});
+        }
+        if (url.pathname === "/system_stats") {
+            return jsonResponse({
+                system: { os: "mock", python_version: "", embedded_python: false },
+                devices: [],
+            });
+        }
+        return jsonResponse({ error: `No mock for ${method} ${url.pathname}` }, 404);
+    }
+
+    openSocket(path: string): BackendSocket {
+        const url = new URL(path, "http://mock");
+        const socket = new MockSocket(this, url.searchParams.get("clientId") || "");
+        this.sockets.push(socket);
+        // like a real socket, it opens asynchronously
+        window.setTimeout(() => {
+            socket.open();
+            this.broadcastStatus();
+        }, 0);
+        return socket;
+    }
+
+    removeSocket(socket: MockSocket) {
+        this.sockets = this.sockets.filter((s) => s !== socket);
+    }
+
+    private uploadImage(form: FormData): Response {
+        const image = form.get("image");
+        if (!(image instanceof File)) {
+            return jsonResponse({ error: "No image provided" }, 400);
+        }
+        const subfolder = `${form.get("subfolder") || ""}`;
+        this.inputImages[subfolder ? `${subfolder}/${image.name}` : image.name] = image;
+        return jsonResponse({ name: image.name, subfolder, type: "input" });
+    }
+
+    private async loadInputImage(node: MockNode): Promise<HTMLImageElement> {
+        if (node.class_type === "ETN_LoadImageBase64") {
+            return loadImageDataElement(`data:image/png;base64,${node.inputs.image}`);
+        }
+        const image = this.inputImages[`${node.inputs.image}`];
+        if (!image) {
+            throw new Error(`Input image ${node.inputs.image} not found`);
+        }
+        const url = URL.createObjectURL(image);
+        try {
+            return await loadImageDataElement(url);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    private queuePrompt(body: { prompt?: MockPrompt["workflow"]; client_id?: string } | undefined): Response {
+        if (!body || !body.prompt) {
+            return jsonResponse({ error: { message: "No prompt provided" } }, 400);
+        }
+        const number = this.nextPromptNumber++;
+        const prompt: MockPrompt = {
+            id: `mock-${number}`,
+            clientId: body.client_id || "",
+            workflow: body.prompt,
+        };
+        this.queue.push(prompt);
+        this.broadcastStatus();
+        this.processQueue();
+        return jsonResponse({ prompt_id: prompt.id, number, node_errors: {} });
+    }
+
+    private async processQueue() {
+        if (this.running) {
+            return;
+        }
+        this.running = this.queue.shift();
+        while (this.running) {
+            await this.execute(this.running);
+            this.running = this.queue.shift();
+            this.broadcastStatus();
+        }
+    }
+
+    private async execute(prompt: MockPrompt) {
+        this.interrupted = false;
+        const promptId = prompt.id;
+        const nodeIds = Object.keys(prompt.workflow);
+        const samplerId = nodeIds.find((id) => prompt.workflow[id].class_type === "KSampler");
+        const saveImageId = nodeIds.find((id) => prompt.workflow[id].class_type === "SaveImage");
+        // captioning workflows show their text instead of saving an image
+        const showTextId = nodeIds.find((id) => prompt.workflow[id].class_type === "ShowText|pysssss");
+        const outputId = saveImageId || showTextId;
+        const steps = Math.min(
+            (samplerId && (prompt.workflow[samplerId].inputs.steps as number)) || maxSteps,
+            maxSteps
+        );
+        this.send(prompt.clientId, { type: "execution_start", data: { prompt_id: promptId } });
+        // the nodes before the sampler finish instantly
+        for (const id of nodeIds.filter((id) => id !== samplerId && id !== outputId)) {
+            this.send(prompt.clientId, { type: "executing", data: { node: id, prompt_id: promptId } });
+        }
+        const executingId = samplerId || nodeIds[0];
+        this.send(prompt.clientId, { type: "executing", data: { node: executingId, prompt_id: promptId } });
+        let preview: Blob | undefined;
+        for (let step = 1; step <= steps; step++) {
+            await sleep(stepDelay);
+            if (this.interrupted) {
+                this.send(prompt.clientId, {
+                    type: "execution_interrupted",
+                    data: { prompt_id: promptId, node_id: executingId },
+                });
+                return;
+            }
+            this.send(prompt.clientId, {
+                type: "progress",
+                data: { value: step, max: steps, prompt_id: promptId, node: executingId },
+            });
+            if (samplerId && step % previewInterval === 0) {
+                // errors are reported once the sampler is done
+                preview = preview || (await this.render(prompt.workflow).catch(() => undefined));
+                if (preview) {
+                    await this.sendPreview(prompt.clientId, preview);
+                }
+            }
+        }
+        let output: ComfyHistoryEntry["outputs"][string];
+        try {
+            if (!outputId) {
+                throw new Error("Prompt has no outputs");
+            }
+            if (saveImageId) {
+                const filename = `mock_${promptId}.png`;
+                this.images[filename] = await this.render(prompt.workflow);
+                output = { images: [{ filename, subfolder: "", type: "output" }] };
+            } else {
+                output = { text: [await this.caption(prompt.workflow)] };
+            }
+        } catch (err) {
+            this.history[promptId] = { outputs: {}, status: { status_str: "error", completed: false } };
+            this.send(prompt.clientId, {
+                type: "execution_error",
+                data: { prompt_id: promptId, node_id: executingId, exception_message: `${err}` },
+            });
+            return;
+        }
+        this.history[promptId] = {
+            outputs: { [outputId]: output },
+            status: { status_str: "success", completed: true },
+        };
+        this.send(prompt.clientId, { type: "executing", data: { node: outputId, prompt_id: promptId } });
+        this.send(prompt.clientId, {
+            type: "executed",
+            data: { node: outputId, output, prompt_id: promptId },
+        });
+        this.send(prompt.clientId, { type: "executing", data: { node: null, prompt_id: promptId } });
+    }
+
+    private async loadSourceImage(workflow: MockPrompt["workflow"]): Promise<HTMLImageElement> {
+        const nodes = Object.values(workflow);
+        const source =
+            nodes.find((node) => node._meta?.title === "load_source_image") ||
+            nodes.find((node) => node.class_type === "ETN_LoadImageBase64" || node.class_type === "LoadImage");
+        if (!source) {
+            throw new Error("No input image");
+        }
+        return this.loadInputImage(source);
+    }
+
+    private async caption(workflow: MockPrompt["workflow"]): Promise<string> {
+        const image = await this.loadSourceImage(workflow);
+        return `A mock caption of a ${image.width}x${image.height} image.`;
+    }
+
+    private async render(workflow: MockPrompt["workflow"]): Promise<Blob> {
+        const nodes = Object.values(workflow);
+        const image = await this.loadSourceImage(workflow);
+        const canvas = document.createElement("canvas");
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+            throw new Error("Could not get canvas context");
+        }
+        if (nodes.find((node) => node.class_type === "ImageUpscaleWithModel")) {
+            canvas.width = image.width * 2;
+            canvas.height = image.height * 2;
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        } else {
+            const sampler = nodes.find((node) => node.class_type === "KSampler");
+            const seed = (sampler?.inputs.seed as number) || 0;
+            const denoise = (sampler?.inputs.denoise as number) ?? 1;
+            canvas.width = image.width;
+            canvas.height = image.height;
+            ctx.filter = `blur(${denoise * 2}px)`;
+            ctx.drawImage(image, 0, 0);
+            ctx.filter = "none";
+            // keep transparent areas transparent
+            ctx.globalCompositeOperation = "source-atop";
+            ctx.fillStyle = `hsla(${(seed * 137) % 360}, 80%, 50%, ${denoise * 0.35})`;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        return new Promise((resolve, reject) =>
+            canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode image"))), "image/png")
+        );
+    }
+
+    private send(clientId: string, message: object) {
+        this.sockets
+            .filter((socket) => socket.clientId === clientId)
+            .forEach((socket) => socket.send(message));
+    }
+
+    // in the binary format of ComfyUI's latent previews: event type, image format, image
+    private async sendPreview(clientId: string, image: Blob) {
+        const bytes = new Uint8Array(await image.arrayBuffer());
+        const data = new Uint8Array(bytes.length + 8);
+        const view = new DataView(data.buffer);
+        // a PREVIEW_IMAGE event with a PNG
+        view.setUint32(0, 1);
+        view.setUint32(4, 2);
+        data.set(bytes, 8);
+        this.sockets
+            .filter((socket) => socket.clientId === clientId)
+            .forEach((socket) => socket.sendBinary(data.buffer));
+    }
+
+    private broadcastStatus() {
+        const queueRemaining = this.queue.length + (this.running ? 1 : 0);
+        for (const socket of this.sockets) {
+            socket.send({
+                type: "status",
+                data: { status: { exec_info: { queue_remaining: queueRemaining } }, sid: socket.clientId },
+            });
+        }
+    }
+}
+
+export const mockBackend = new MockBackend();
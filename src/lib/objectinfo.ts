@@ -13,7 +13,47 @@ export interface LoraLoader {
     }
 } 
 
+export interface KSampler {
+    input: {
+        required: {
+            sampler_name: string[][];
+            scheduler: string[][];
+        }
+    }
+}
+
 export interface ComfyObjectInfo {
     CheckpointLoaderSimple: CheckpointLoaderSimple;
     LoraLoader: LoraLoader;
-}
\ No newline at end of file
+    KSampler: KSampler;
+}
+
+
+export interface InputOptions {
+    default?: number | string | boolean;
+    min?: number;
+    max?: number;
+    step?: number;
+    round?: number | false;
+    multiline?: boolean;
+}
+
+// Either a type name ("INT", "FLOAT", "STRING", "BOOLEAN", or a link type like "MODEL")
+// or the list of choices for an enum input, followed by its options
+export type InputSpec = [string | string[], InputOptions?];
+
+export interface NodeInfo {
+    input: {
+        required?: { [name: string]: InputSpec };
+        optional?: { [name: string]: InputSpec };
+    };
+}
+
+// object_info describes every node class; the interfaces above only cover the ones we read directly
+export function getInputSpec(objectInfo: ComfyObjectInfo, classType: string, input: string): InputSpec | undefined {
+    const nodeInfo = (objectInfo as unknown as { [classType: string]: NodeInfo | undefined })[classType];
+    if (!nodeInfo) {
+        return undefined;
+    }
+    return nodeInfo.input.required?.[input] || nodeInfo.input.optional?.[input];
+}
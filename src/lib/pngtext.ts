@@ -0,0 +1,159 @@
+// Reads and writes PNG text chunks (tEXt and iTXt), the way ComfyUI and
+// other generators store their parameters in images.
+
+const pngSignature = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crcTable: number[] | undefined;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable.push(c >>> 0);
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+    return pngSignature.every((value, i) => bytes[i] === value);
+}
+
+interface Chunk {
+    type: string;
+    // offset of the length field
+    offset: number;
+    data: Uint8Array;
+}
+
+function readChunks(bytes: Uint8Array): Chunk[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Chunk[] = [];
+    let offset = pngSignature.length;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        chunks.push({ type, offset, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += length + 12;
+        if (type === "IEND") {
+            break;
+        }
+    }
+    return chunks;
+}
+
+function latin1(bytes: Uint8Array): string {
+    let text = "";
+    for (let i = 0; i < bytes.length; i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+    return text;
+}
+
+function isLatin1(text: string): boolean {
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) > 255) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Returns the uncompressed text chunks by keyword. Compressed zTXt and iTXt
+// chunks are skipped; ComfyUI doesn't write them.
+export function readPngText(bytes: Uint8Array): { [keyword: string]: string } {
+    const text: { [keyword: string]: string } = {};
+    if (!isPng(bytes)) {
+        return text;
+    }
+    for (const chunk of readChunks(bytes)) {
+        const separator = chunk.data.indexOf(0);
+        if (separator < 0) {
+            continue;
+        }
+        const keyword = latin1(chunk.data.subarray(0, separator));
+        if (chunk.type === "tEXt") {
+            text[keyword] = latin1(chunk.data.subarray(separator + 1));
+        } else if (chunk.type === "iTXt") {
+            const compressed = chunk.data[separator + 1] !== 0;
+            // skip the compression method, then the language tag and translated keyword
+            const languageEnd = chunk.data.indexOf(0, separator + 3);
+            const translatedEnd = chunk.data.indexOf(0, languageEnd + 1);
+            if (compressed || languageEnd < 0 || translatedEnd < 0) {
+                continue;
+            }
+            text[keyword] = new TextDecoder("utf-8").decode(chunk.data.subarray(translatedEnd + 1));
+        }
+    }
+    return text;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(data.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+    return chunk;
+}
+
+function createTextChunk(keyword: string, value: string): Uint8Array {
+    const keywordBytes = Uint8Array.from(keyword, (c) => c.charCodeAt(0));
+    // like PIL (and so ComfyUI), only fall back to iTXt for text that isn't latin1
+    if (isLatin1(value)) {
+        const data = new Uint8Array(keywordBytes.length + 1 + value.length);
+        data.set(keywordBytes);
+        for (let i = 0; i < value.length; i++) {
+            data[keywordBytes.length + 1 + i] = value.charCodeAt(i);
+        }
+        return createChunk("tEXt", data);
+    }
+    const valueBytes = new TextEncoder().encode(value);
+    // keyword, then uncompressed, no compression method, empty language and translated keyword
+    const data = new Uint8Array(keywordBytes.length + 5 + valueBytes.length);
+    data.set(keywordBytes);
+    data.set(valueBytes, keywordBytes.length + 5);
+    return createChunk("iTXt", data);
+}
+
+// Returns a copy of the PNG with the text chunks added before the image data.
+// Existing chunks with the same keywords are replaced.
+export function writePngText(bytes: Uint8Array, text: { [keyword: string]: string }): Uint8Array {
+    if (!isPng(bytes)) {
+        throw new Error("Not a PNG image");
+    }
+    const keywords = Object.keys(text);
+    let written = false;
+    const parts: Uint8Array[] = [bytes.subarray(0, pngSignature.length)];
+    for (const chunk of readChunks(bytes)) {
+        if (chunk.type === "tEXt" || chunk.type === "iTXt") {
+            const keyword = latin1(chunk.data.subarray(0, chunk.data.indexOf(0)));
+            if (keywords.includes(keyword)) {
+                continue;
+            }
+        }
+        if (chunk.type === "IDAT" && !written) {
+            keywords.forEach((keyword) => parts.push(createTextChunk(keyword, text[keyword])));
+            written = true;
+        }
+        parts.push(bytes.subarray(chunk.offset, chunk.offset + chunk.data.length + 12));
+    }
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import saveAs from "file-saver";
+
+// A prompt as it was used for a generation. Starred entries are presets.
+export interface PromptEntry {
+    id: number;
+    prompt: string;
+    negativePrompt: string;
+    seed: number;
+    denoise: number;
+    // empty when the workflow's own checkpoint was used
+    model: string;
+    timestamp: number;
+    starred: boolean;
+}
+
+export type NewPromptEntry = Omit<PromptEntry, "id" | "timestamp" | "starred">;
+
+interface PresetExport {
+    version: 1;
+    presets: Omit<PromptEntry, "id">[];
+}
+
+const databaseName = "smartdraw";
+const storeName = "prompts";
+// unstarred entries beyond this are dropped, oldest first
+const maxHistory = 500;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Prompt history and presets, kept in IndexedDB so they survive reloads
+// without crowding the localStorage settings.
+export class PromptLibrary {
+    private database: Promise<IDBDatabase> | undefined;
+    private changeListeners: ((entries: PromptEntry[]) => void)[] = [];
+
+    addChangeListener(listener: (entries: PromptEntry[]) => void) {
+        this.changeListeners.push(listener);
+    }
+
+    removeChangeListener(listener: (entries: PromptEntry[]) => void) {
+        this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    }
+
+    // newest first
+    async getEntries(): Promise<PromptEntry[]> {
+        const store = await this.store("readonly");
+        const entries = await requestToPromise<PromptEntry[]>(store.getAll());
+        return entries.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    async record(entry: NewPromptEntry) {
+        const entries = await this.getEntries();
+        const latest = entries[0];
+        // regenerating with the same settings only bumps the timestamp
+        if (
+            latest &&
+            latest.prompt === entry.prompt &&
+            latest.negativePrompt === entry.negativePrompt &&
+            latest.seed === entry.seed &&
+            latest.denoise === entry.denoise &&
+            latest.model === entry.model
+        ) {
+            await this.put({ ...latest, timestamp: Date.now() });
+        } else {
+            await this.put({ ...entry, timestamp: Date.now(), starred: false });
+        }
+        const expired = entries.filter((e) => !e.starred).slice(maxHistory - 1);
+        if (expired.length > 0) {
+            const store = await this.store("readwrite");
+            await Promise.all(expired.map((e) => requestToPromise(store.delete(e.id))));
+        }
+        await this.notifyChangeListeners();
+    }
+
+    async setStarred(entry: PromptEntry, starred: boolean) {
+        await this.put({ ...entry, starred });
+        await this.notifyChangeListeners();
+    }
+
+    async remove(id: number) {
+        const store = await this.store("readwrite");
+        await requestToPromise(store.delete(id));
+        await this.notifyChangeListeners();
+    }
+
+    async exportPresets() {
+        const presets = (await this.getEntries())
+            .filter((entry) => entry.starred)
+            .map((entry) => {
+                const preset: Partial<PromptEntry> = { ...entry };
+                // ids are local to this browser's database
+                delete preset.id;
+                return preset as Omit<PromptEntry, "id">;
+            });
+        const data: PresetExport = { version: 1, presets };
+        const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+        saveAs(blob, "smartdraw-presets.json");
+    }
+
+    // Adds the presets from an exported file, skipping ones that already exist.
+    // Returns how many were added.
+    async importPresets(json: string): Promise<number> {
+        const data = JSON.parse(json) as Partial<PresetExport>;
+        if (!data || !Array.isArray(data.presets)) {
+            throw new Error("The file doesn't contain presets");
+        }
+        const existing = await this.getEntries();
+        let added = 0;
+        for (const preset of data.presets) {
+            if (typeof preset.prompt !== "string") {
+                continue;
+            }
+            const entry = {
+                prompt: preset.prompt,
+                negativePrompt: typeof preset.negativePrompt === "string" ? preset.negativePrompt : "",
+                seed: typeof preset.seed === "number" ? preset.seed : 0,
+                denoise: typeof preset.denoise === "number" ? preset.denoise : 0.65,
+                model: typeof preset.model === "string" ? preset.model : "",
+                timestamp: typeof preset.timestamp === "number" ? preset.timestamp : Date.now(),
+                starred: true,
+            };
+            const duplicate = existing.find(
+                (e) =>
+                    e.starred &&
+                    e.prompt === entry.prompt &&
+                    e.negativePrompt === entry.negativePrompt &&
+                    e.seed === entry.seed &&
+                    e.denoise === entry.denoise &&
+                    e.model === entry.model
+            );
+            if (!duplicate) {
+                await this.put(entry);
+                added++;
+            }
+        }
+        await this.notifyChangeListeners();
+        return added;
+    }
+
+    private async put(entry: Omit<PromptEntry, "id"> & { id?: number }) {
+        const store = await this.store("readwrite");
+        await requestToPromise(store.put(entry));
+    }
+
+    private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const database = await this.open();
+        return database.transaction(storeName, mode).objectStore(storeName);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                const request = indexedDB.open(databaseName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(storeName, { keyPath: "id", autoIncrement: true });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.database;
+    }
+
+    private async notifyChangeListeners() {
+        const entries = await this.getEntries();
+        for (const listener of this.changeListeners) {
+            listener(entries);
+        }
+    }
+}
+
+export const promptLibrary = new PromptLibrary();
+
+// keeps a component in sync with the library
+export function usePromptEntries(): PromptEntry[] {
+    const [entries, setEntries] = useState<PromptEntry[]>([]);
+
+    useEffect(() => {
+        promptLibrary.getEntries().then(setEntries).catch((err) => {
+            console.error("Failed to load prompt history", err);
+        });
+        promptLibrary.addChangeListener(setEntries);
+        return () => promptLibrary.removeChangeListener(setEntries);
+    }, []);
+
+    return entries;
+}
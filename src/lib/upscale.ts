@@ -0,0 +1,81 @@
+import { Upscale } from "./workflows";
+import { backendPool, workflowRequirements } from "./backendpool";
+import {
+    SplitResult,
+    imageDataToEncodedImage,
+    imageToImageData,
+    loadImageDataElement,
+    mergeTiles,
+    splitImage,
+} from "./imageutil";
+import upscaleWorkflow from "../workflows/upscale_api.json";
+
+// Upscales an image tile by tile through the upscale workflow and merges the
+// results. The upscale model decides its own factor, so every tile is resized
+// to exactly `scale` times its original size before merging.
+export async function upscaleImageData(
+    imageData: ImageData,
+    scale: number,
+    onProgress?: (progress: number) => void,
+    onCancel?: (listener: () => void) => void
+): Promise<ImageData> {
+    // small images fit in a single tile
+    const splitResult: SplitResult = splitImage(imageData) || {
+        numTilesX: 1,
+        numTilesY: 1,
+        tileSize: Math.max(imageData.width, imageData.height),
+        overlap: 0,
+        imageWidth: imageData.width,
+        imageHeight: imageData.height,
+        tiles: [[imageData]],
+    };
+    const totalTiles = splitResult.numTilesX * splitResult.numTilesY;
+    const tileProgress: number[] = new Array(totalTiles).fill(0);
+    const requirements = workflowRequirements(upscaleWorkflow);
+    const running = new Set<Upscale>();
+    let cancelled = false;
+    if (onCancel) {
+        onCancel(() => {
+            cancelled = true;
+            running.forEach((upscale) => upscale.cancel());
+        });
+    }
+
+    // tiles are independent, so with several backends they are upscaled side by side
+    const upscaleTile = (tile: ImageData, index: number) =>
+        backendPool.run(
+            requirements,
+            async (backend, onAbandon) => {
+                const upscale = new Upscale(upscaleWorkflow, backend);
+                onAbandon(() => upscale.cancel());
+                running.add(upscale);
+                let dataUrl: string;
+                try {
+                    dataUrl = await upscale.run(imageDataToEncodedImage(tile, "png"), (progress) => {
+                        tileProgress[index] = progress;
+                        if (onProgress) {
+                            onProgress(tileProgress.reduce((sum, p) => sum + p, 0) / totalTiles);
+                        }
+                    });
+                } finally {
+                    running.delete(upscale);
+                }
+                const image = await loadImageDataElement(dataUrl);
+                return imageToImageData(image, tile.width * scale, tile.height * scale);
+            },
+            () => cancelled
+        );
+    const upscaledTiles = await Promise.all(
+        splitResult.tiles.map((column, x) =>
+            Promise.all(column.map((tile, y) => upscaleTile(tile, x * splitResult.numTilesY + y)))
+        )
+    );
+    // cancelled while the last tiles were being decoded
+    if (cancelled) {
+        throw new Error("Cancelled");
+    }
+    if (onProgress) {
+        onProgress(1);
+    }
+    return mergeTiles({ ...splitResult, tiles: upscaledTiles }, scale);
+}
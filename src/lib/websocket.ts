@@ -1,53 +1,303 @@
+import { ComfyFetcher } from "./comfyfetcher";
+import { BackendSocket, ComfyBackend } from "./backend";
 
+// give up on waiting prompts once the connection has been down this long. A silent
+// backend is fine, prompts may be waiting behind a long queue from other clients
+const disconnectTimeout = 120000;
+const minReconnectDelay = 1000;
+const maxReconnectDelay = 30000;
+// completions seen before anyone waited for them
+const maxFinishedPrompts = 50;
+// a prompt can be reported done just before its history is written
+const historyAttempts = 3;
+const historyRetryDelay = 1000;
+// binary messages start with the event type, then for previews the image format
+const previewImageEvent = 1;
+const previewFormats: { [format: number]: string } = { 1: "image/jpeg", 2: "image/png" };
+
+// the `output` of an "executed" message from a SaveImage node, or a text node like ShowText
+export interface ExecutedOutput {
+    images?: { filename: string; subfolder: string; type: string }[];
+    text?: string[];
+}
+
+// Follows a prompt while it runs
+export interface ExecutionListener {
+    // fraction of the current node's steps
+    onProgress?: (progress: number) => void;
+    // id of the node that started executing
+    onExecuting?: (nodeId: string) => void;
+    // a sampling preview, as sent by the backend's latent previewer
+    onPreview?: (preview: Blob) => void;
+}
+
+interface Waiter {
+    resolve: (output: ExecutedOutput) => void;
+    reject: (error: Error) => void;
+    listener: ExecutionListener;
+}
+
+type FinishedPrompt = { output: ExecutedOutput } | { error: Error };
+
+// One long-lived connection per backend, shared by every prompt submitted with its clientId.
+// Messages are routed to waiters by prompt_id. Dropped connections are re-established
+// with backoff, and prompts that finished in the meantime are looked up in /history.
 export class WebsocketHelper {
-    private url: string;
-    private waiting: boolean;
-    private promptId: string | undefined;
-    private onCompletion: ((output: string) => void) | undefined;
-    private onProgress: ((progress: number) => void) | undefined;
+    private static helpers: { [backendUrl: string]: WebsocketHelper } = {};
+
+    static forBackend(backend: ComfyBackend): WebsocketHelper {
+        if (!WebsocketHelper.helpers[backend.url]) {
+            WebsocketHelper.helpers[backend.url] = new WebsocketHelper(backend);
+        }
+        return WebsocketHelper.helpers[backend.url];
+    }
+
+    readonly clientId = Math.random().toString();
+
+    private ws: BackendSocket | undefined;
+    private fetcher: ComfyFetcher;
+    private waiters = new Map<string, Waiter>();
+    private finished = new Map<string, FinishedPrompt>();
+    // prompts recently finished, so a late "done" message doesn't look them up again
+    private settled = new Set<string>();
+    // older backends don't tag progress messages, so track what is executing
+    private executingPromptId: string | undefined;
+    private reconnectDelay = minReconnectDelay;
+    private reconnectTimer: number | undefined;
+    private disconnectTimer: number | undefined;
+    // settles once the current socket opens or fails to
+    private connecting: Promise<void> | undefined;
+
+    private constructor(private readonly backend: ComfyBackend) {
+        this.fetcher = new ComfyFetcher(backend);
+    }
+
+    // Opens the connection if needed. Resolves once it's open, so that
+    // prompts submitted afterwards can't complete unnoticed.
+    connect(): Promise<void> {
+        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+            return Promise.resolve();
+        }
+        if (!this.ws || this.ws.readyState !== WebSocket.CONNECTING) {
+            this.open();
+        }
+        return this.connecting || Promise.reject(new Error("Could not connect to the backend"));
+    }
+
+    waitForCompletion(promptId: string, listener: ExecutionListener = {}): Promise<ExecutedOutput> {
+        return new Promise((resolve, reject) => {
+            const finished = this.finished.get(promptId);
+            if (finished) {
+                this.finished.delete(promptId);
+                if ("output" in finished) {
+                    resolve(finished.output);
+                } else {
+                    reject(finished.error);
+                }
+                return;
+            }
+            this.waiters.set(promptId, { resolve, reject, listener });
+            this.updateDisconnectTimer();
+            this.connect().catch(() => {
+                // keeps retrying in the background
+            });
+        });
+    }
 
-    constructor(url: string) {
-        this.url = url;
-        this.waiting = false;
+    // stops tracking a prompt that was cancelled
+    cancelWait(promptId: string) {
+        this.waiters.delete(promptId);
+        this.finished.delete(promptId);
+        this.updateDisconnectTimer();
     }
 
-    private _waitForCompletion() {
-        if (!this.onCompletion || !this.promptId) {
+    private open() {
+        if (this.reconnectTimer) {
+            window.clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        const ws = this.backend.openSocket(`/ws?clientId=${this.clientId}`);
+        const connecting = new Promise<void>((resolve, reject) => {
+            ws.onopen = () => {
+                resolve();
+                const reconnected = this.reconnectDelay > minReconnectDelay;
+                this.reconnectDelay = minReconnectDelay;
+                this.updateDisconnectTimer();
+                if (reconnected) {
+                    this.checkHistory();
+                }
+            };
+            ws.onclose = () => {
+                reject(new Error("Could not connect to the backend"));
+                if (this.ws === ws) {
+                    this.ws = undefined;
+                    this.connecting = undefined;
+                    this.updateDisconnectTimer();
+                    this.scheduleReconnect();
+                }
+            };
+        });
+        // nobody may be waiting for this connection
+        connecting.catch(() => undefined);
+        ws.onmessage = (event) => this.onMessage(event);
+        this.ws = ws;
+        this.connecting = connecting;
+    }
+
+    private scheduleReconnect() {
+        // nobody is waiting, so reconnect lazily on the next prompt
+        if (this.waiters.size === 0 || this.reconnectTimer) {
             return;
         }
-        const ws = new WebSocket(this.url);
-        ws.onmessage = (event) => {
-            const result = JSON.parse(event.data);
-            if (result.type === "executed" && result.data.prompt_id === this.promptId) {
-                this.waiting = false;
-                this.onCompletion!(result.data.output);
-                ws.close();
+        this.reconnectTimer = window.setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.open();
+        }, this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, maxReconnectDelay);
+    }
+
+    private onMessage(event: MessageEvent) {
+        if (typeof event.data !== "string") {
+            this.onBinaryMessage(event.data).catch((err) => console.error("Failed to decode preview", err));
+            return;
+        }
+        const message = JSON.parse(event.data);
+        const data = message.data || {};
+        const promptId: string | undefined = data.prompt_id || this.executingPromptId;
+        switch (message.type) {
+            case "executing": {
+                this.executingPromptId = data.node === null ? undefined : data.prompt_id;
+                if (data.node === null && promptId && !this.settled.has(promptId)) {
+                    // done without an output message, e.g. when every output came from the cache
+                    this.lookUpHistory(promptId, historyAttempts);
+                }
+                const waiter = data.node !== null && promptId && this.waiters.get(promptId);
+                if (waiter && waiter.listener.onExecuting) {
+                    waiter.listener.onExecuting(`${data.node}`);
+                }
+                break;
+            }
+            case "progress": {
+                const waiter = promptId && this.waiters.get(promptId);
+                if (waiter && waiter.listener.onProgress) {
+                    waiter.listener.onProgress(data.value / data.max);
+                }
+                break;
             }
-            if (result.type === "progress") {
-                if (this.onProgress) {
-                    const progress = result.data.value / result.data.max;
-                    this.onProgress(progress);
+            case "executed":
+                if (promptId && (data.output?.images || data.output?.text)) {
+                    this.finish(promptId, { output: data.output });
+                }
+                break;
+            case "execution_error":
+                if (promptId) {
+                    this.finish(promptId, {
+                        error: new Error(data.exception_message || "Execution failed"),
+                    });
                 }
+                break;
+            case "execution_interrupted":
+                if (promptId) {
+                    this.finish(promptId, { error: new Error("Interrupted") });
+                }
+                break;
+        }
+    }
+
+    // Previews aren't tagged with a prompt, they belong to whatever is executing
+    private async onBinaryMessage(data: Blob | ArrayBuffer) {
+        const promptId = this.executingPromptId;
+        const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+        if (buffer.byteLength < 8) {
+            return;
+        }
+        const view = new DataView(buffer);
+        const type = previewFormats[view.getUint32(4)];
+        if (view.getUint32(0) !== previewImageEvent || !type) {
+            return;
+        }
+        const waiter = promptId && this.waiters.get(promptId);
+        if (waiter && waiter.listener.onPreview) {
+            waiter.listener.onPreview(new Blob([buffer.slice(8)], { type }));
+        }
+    }
+
+    private finish(promptId: string, result: FinishedPrompt) {
+        this.settled.add(promptId);
+        if (this.settled.size > maxFinishedPrompts) {
+            this.settled.delete(this.settled.values().next().value!);
+        }
+        const waiter = this.waiters.get(promptId);
+        if (!waiter) {
+            // the prompt was submitted but nobody is waiting yet
+            this.finished.set(promptId, result);
+            if (this.finished.size > maxFinishedPrompts) {
+                this.finished.delete(this.finished.keys().next().value!);
             }
-        };
-        setTimeout(() => {
-            if (this.waiting) {
-                ws.close();
+            return;
+        }
+        this.waiters.delete(promptId);
+        if ("output" in result) {
+            waiter.resolve(result.output);
+        } else {
+            waiter.reject(result.error);
+        }
+        this.updateDisconnectTimer();
+    }
+
+    // picks up prompts that finished while the connection was down
+    private checkHistory() {
+        for (const promptId of Array.from(this.waiters.keys())) {
+            this.lookUpHistory(promptId);
+        }
+    }
+
+    // Finishes the prompt from its /history entry. With attempts, the prompt is known
+    // to be done, so it fails if it still has no output after that many tries.
+    private lookUpHistory(promptId: string, attempts = 0) {
+        this.fetcher.fetch_history(promptId).then((history) => {
+            if (this.settled.has(promptId)) {
+                return;
+            }
+            if (history?.status?.status_str === "error") {
+                this.finish(promptId, { error: new Error("Execution failed") });
+                return;
             }
-        }, 120000);
+            const output = history && Object.values(history.outputs).find((o) => o.images || o.text);
+            if (output) {
+                this.finish(promptId, { output: { images: output.images, text: output.text } });
+            } else if (attempts > 1) {
+                window.setTimeout(() => this.lookUpHistory(promptId, attempts - 1), historyRetryDelay);
+            } else if (attempts === 1) {
+                this.finish(promptId, { error: new Error("The workflow finished without an output") });
+            }
+        }).catch((err) => console.error("Failed to fetch history", err));
     }
 
-    public waitForCompletion(promptId: string, onCompletion: (output: string) => void, onProgress?: (progress: number) => void) {
-        if (this.waiting) {
+    // runs while prompts are waiting and the connection is down
+    private updateDisconnectTimer() {
+        const waiting = this.waiters.size > 0 && !(this.ws && this.ws.readyState === WebSocket.OPEN);
+        if (!waiting) {
+            if (this.disconnectTimer) {
+                window.clearTimeout(this.disconnectTimer);
+                this.disconnectTimer = undefined;
+            }
             return;
         }
-        this.waiting = true;
-        this.promptId = promptId;
-        this.onCompletion = onCompletion;
-        this.onProgress = onProgress;
-        // start a thread to wait for completion
-        setTimeout(() => {
-            this._waitForCompletion();
-        }, 0);
+        if (this.disconnectTimer) {
+            return;
+        }
+        this.disconnectTimer = window.setTimeout(() => {
+            this.disconnectTimer = undefined;
+            const error = new Error("Lost connection to the backend");
+            for (const [promptId, waiter] of Array.from(this.waiters.entries())) {
+                // don't leave the prompt running for nobody if the backend is still there
+                this.fetcher.cancel_prompt(promptId).catch((err) => {
+                    console.error(`Failed to cancel prompt ${promptId}`, err);
+                });
+                waiter.reject(error);
+            }
+            this.waiters.clear();
+        }, disconnectTimeout);
     }
-}
\ No newline at end of file
+}
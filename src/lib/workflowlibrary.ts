@@ -0,0 +1,208 @@
+import { getCachedValue } from "./cache";
+import img2imgIPAdapterWorkflow from "../workflows/dreamshaper_img2img64_mask_ipadapter_api.json";
+import img2imgMaskWorkflow from "../workflows/dreamshaper_img2img64_mask_api.json";
+import inpaintingXLWorkflow from "../workflows/inpaintingxl_api.json";
+import scribbleWorkflow from "../workflows/dreamshaper_scribble_api.json";
+
+export interface WorkflowEntry {
+    id: string;
+    name: string;
+    workflow: object;
+    // bundled workflows ship with the app and can't be deleted
+    builtin: boolean;
+}
+
+export interface WorkflowValidation {
+    errors: string[];
+    warnings: string[];
+}
+
+interface TitleRequirement {
+    title: string;
+    classTypes: string[];
+    // what stops working without the node, for optional titles
+    feature?: string;
+}
+
+// The node titles Img2Img looks workflows up by
+const requiredTitles: TitleRequirement[] = [
+    { title: "sampler", classTypes: ["KSampler"] },
+    { title: "positive_prompt", classTypes: ["CLIPTextEncode"] },
+    { title: "negative_prompt", classTypes: ["CLIPTextEncode"] },
+    { title: "load_source_image", classTypes: ["ETN_LoadImageBase64"] },
+    { title: "load_mask", classTypes: ["ETN_LoadImageBase64"] },
+];
+
+const optionalTitles: TitleRequirement[] = [
+    { title: "load_sdxl_checkpoint", classTypes: ["CheckpointLoaderSimple"], feature: "checkpoint selection" },
+    { title: "refiner_sampler", classTypes: ["KSampler"], feature: "a refiner pass" },
+    { title: "apply_ipadapter", classTypes: ["IPAdapterApply"], feature: "reference images" },
+    { title: "load_reference_image_1", classTypes: ["ETN_LoadImageBase64"], feature: "reference images" },
+    { title: "load_reference_image_2", classTypes: ["ETN_LoadImageBase64"], feature: "reference images" },
+    { title: "batch_reference_images_1", classTypes: ["ImageBatch"], feature: "reference images" },
+    { title: "load_control_image", classTypes: ["ETN_LoadImageBase64"], feature: "sketch mode" },
+    { title: "apply_controlnet", classTypes: ["ControlNetApplyAdvanced"], feature: "sketch mode" },
+];
+
+const libraryKey = "workflowLibrary";
+
+const builtinWorkflows: WorkflowEntry[] = [
+    {
+        id: "dreamshaper_ipadapter",
+        name: "Dreamshaper (reference images)",
+        workflow: img2imgIPAdapterWorkflow,
+        builtin: true,
+    },
+    {
+        id: "dreamshaper",
+        name: "Dreamshaper (noise mask)",
+        workflow: img2imgMaskWorkflow,
+        builtin: true,
+    },
+    {
+        id: "inpaintingxl",
+        name: "SDXL Inpainting",
+        workflow: inpaintingXLWorkflow,
+        builtin: true,
+    },
+    {
+        id: "dreamshaper_scribble",
+        name: "Dreamshaper (scribble ControlNet)",
+        workflow: scribbleWorkflow,
+        builtin: true,
+    },
+];
+
+export const defaultRefineWorkflowId = "dreamshaper_ipadapter";
+export const defaultInpaintWorkflowId = "inpaintingxl";
+export const defaultSketchWorkflowId = "dreamshaper_scribble";
+
+// titles are compared loosely to spot typos like "Sampler" or "positive prompt"
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Checks an imported workflow against the node title contract. Errors make
+// the workflow unusable, warnings only disable optional features.
+export function validateWorkflow(json: unknown): WorkflowValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+        return { errors: ["The file doesn't contain a workflow."], warnings };
+    }
+    const workflow = json as { [id: string]: unknown };
+    if (Array.isArray(workflow.nodes) && Array.isArray(workflow.links)) {
+        errors.push(
+            'This is a UI workflow. Enable dev mode options in ComfyUI and export it with "Save (API Format)".'
+        );
+        return { errors, warnings };
+    }
+
+    const nodesByTitle: { [title: string]: { id: string; classType: string }[] } = {};
+    for (const id of Object.keys(workflow)) {
+        const node = workflow[id] as { class_type?: string; _meta?: { title?: string } };
+        if (!node || typeof node !== "object" || !node.class_type) {
+            errors.push(`Node ${id} isn't a valid API-format node.`);
+            continue;
+        }
+        const title = node._meta?.title;
+        if (!title) {
+            errors.push(
+                `Node ${id} (${node.class_type}) has no title. Re-export the workflow from a recent ComfyUI.`
+            );
+            continue;
+        }
+        nodesByTitle[title] = [...(nodesByTitle[title] || []), { id, classType: node.class_type }];
+    }
+    if (errors.length > 0) {
+        return { errors, warnings };
+    }
+
+    const check = (requirement: TitleRequirement, report: string[]) => {
+        const nodes = nodesByTitle[requirement.title];
+        const consequence = requirement.feature ? `, so ${requirement.feature} won't be available` : "";
+        if (!nodes) {
+            const similar = Object.keys(nodesByTitle).find(
+                (title) => normalizeTitle(title) === normalizeTitle(requirement.title)
+            );
+            report.push(
+                similar
+                    ? `Node "${similar}" should be titled "${requirement.title}"${consequence}.`
+                    : `No node titled "${requirement.title}" (${requirement.classTypes.join(" or ")})${consequence}.`
+            );
+            return;
+        }
+        if (nodes.length > 1) {
+            warnings.push(
+                `${nodes.length} nodes are titled "${requirement.title}"; only node ${nodes[nodes.length - 1].id} will be used.`
+            );
+        }
+        const node = nodes[nodes.length - 1];
+        if (!requirement.classTypes.includes(node.classType)) {
+            report.push(
+                `"${requirement.title}" is a ${node.classType} node but should be ${requirement.classTypes.join(" or ")}${consequence}.`
+            );
+        }
+    };
+    requiredTitles.forEach((requirement) => check(requirement, errors));
+    optionalTitles.forEach((requirement) => check(requirement, warnings));
+
+    const hasOutput = Object.values(workflow).some(
+        (node) => (node as { class_type: string }).class_type === "SaveImage"
+    );
+    if (!hasOutput) {
+        errors.push("The workflow has no SaveImage node to return the result.");
+    }
+    return { errors, warnings };
+}
+
+function supportsFeature(workflow: object, feature: string): boolean {
+    const titles = Object.values(workflow).map((node) => node._meta?.title);
+    return optionalTitles
+        .filter((requirement) => requirement.feature === feature)
+        .every((requirement) => titles.includes(requirement.title));
+}
+
+export function supportsReferenceImages(workflow: object): boolean {
+    return supportsFeature(workflow, "reference images");
+}
+
+export function supportsControlImage(workflow: object): boolean {
+    return supportsFeature(workflow, "sketch mode");
+}
+
+function loadUserWorkflows(): WorkflowEntry[] {
+    return getCachedValue<WorkflowEntry[]>(libraryKey, []);
+}
+
+function saveUserWorkflows(workflows: WorkflowEntry[]) {
+    localStorage.setItem(libraryKey, JSON.stringify(workflows));
+}
+
+export function listWorkflows(): WorkflowEntry[] {
+    return [...builtinWorkflows, ...loadUserWorkflows()];
+}
+
+// falls back to the default when a saved workflow has since been deleted
+export function getWorkflow(id: string, defaultId: string): WorkflowEntry {
+    const workflows = listWorkflows();
+    return (
+        workflows.find((entry) => entry.id === id) ||
+        workflows.find((entry) => entry.id === defaultId)!
+    );
+}
+
+export function addWorkflow(name: string, workflow: object): WorkflowEntry {
+    const entry: WorkflowEntry = {
+        id: `user_${Date.now()}`,
+        name,
+        workflow,
+        builtin: false,
+    };
+    saveUserWorkflows([...loadUserWorkflows(), entry]);
+    return entry;
+}
+
+export function deleteWorkflow(id: string) {
+    saveUserWorkflows(loadUserWorkflows().filter((entry) => entry.id !== id));
+}
@@ -0,0 +1,123 @@
+import { getCachedValue } from "./cache";
+import { ComfyObjectInfo, getInputSpec } from "./objectinfo";
+import { Img2Img } from "./workflows";
+
+export type ParameterValue = number | string | boolean;
+
+export interface WorkflowParameter {
+    title: string;
+    input: string;
+    type: "INT" | "FLOAT" | "STRING" | "BOOLEAN" | "COMBO";
+    // the value in the workflow JSON
+    defaultValue: ParameterValue;
+    min?: number;
+    max?: number;
+    step?: number;
+    choices?: string[];
+}
+
+// title -> input -> value
+export interface WorkflowOverrides {
+    [title: string]: { [input: string]: ParameterValue };
+}
+
+const overridesKey = "workflowOverrides";
+
+// Inputs the editor sets itself on every run. Overriding them would be confusing at best.
+const managedInputs: { [title: string]: string[] } = {
+    sampler: ["seed", "denoise"],
+    positive_prompt: ["text"],
+    negative_prompt: ["text"],
+    apply_ipadapter: ["weight"],
+    apply_controlnet: ["strength", "start_percent", "end_percent"],
+    load_sdxl_checkpoint: ["ckpt_name"],
+};
+
+function isManaged(title: string, classType: string, input: string): boolean {
+    // images are always supplied by the editor
+    if (classType === "ETN_LoadImageBase64") {
+        return true;
+    }
+    return !!managedInputs[title] && managedInputs[title].includes(input);
+}
+
+function inferType(value: ParameterValue): WorkflowParameter["type"] {
+    if (typeof value === "boolean") {
+        return "BOOLEAN";
+    }
+    if (typeof value === "number") {
+        return Number.isInteger(value) ? "INT" : "FLOAT";
+    }
+    return "STRING";
+}
+
+// Lists every scalar input of every titled node. Linked inputs are skipped.
+// Without object_info, types are guessed from the values in the workflow.
+export function getWorkflowParameters(workflow: object, objectInfo?: ComfyObjectInfo): WorkflowParameter[] {
+    const nodes = workflow as {
+        [id: string]: { class_type: string; inputs: { [name: string]: unknown }; _meta?: { title?: string } };
+    };
+    // when titles repeat, the last node wins, as in Img2Img
+    const nodeIds: { [title: string]: string } = {};
+    for (const id of Object.keys(nodes)) {
+        const title = nodes[id]._meta?.title;
+        if (title) {
+            nodeIds[title] = id;
+        }
+    }
+    const parameters: WorkflowParameter[] = [];
+    for (const title of Object.keys(nodeIds)) {
+        const node = nodes[nodeIds[title]];
+        for (const input of Object.keys(node.inputs)) {
+            const value = node.inputs[input];
+            if (
+                !["number", "string", "boolean"].includes(typeof value) ||
+                isManaged(title, node.class_type, input)
+            ) {
+                continue;
+            }
+            const defaultValue = value as ParameterValue;
+            const parameter: WorkflowParameter = {
+                title,
+                input,
+                type: inferType(defaultValue),
+                defaultValue,
+            };
+            const spec = objectInfo && getInputSpec(objectInfo, node.class_type, input);
+            if (spec) {
+                const [type, options] = spec;
+                if (Array.isArray(type)) {
+                    parameter.type = "COMBO";
+                    parameter.choices = type;
+                } else if (["INT", "FLOAT", "STRING", "BOOLEAN"].includes(type)) {
+                    parameter.type = type as WorkflowParameter["type"];
+                }
+                if (options) {
+                    parameter.min = options.min;
+                    parameter.max = options.max;
+                    parameter.step = options.step;
+                }
+            }
+            parameters.push(parameter);
+        }
+    }
+    return parameters;
+}
+
+export function loadWorkflowOverrides(workflowId: string): WorkflowOverrides {
+    return getCachedValue<{ [workflowId: string]: WorkflowOverrides }>(overridesKey, {})[workflowId] || {};
+}
+
+export function saveWorkflowOverrides(workflowId: string, overrides: WorkflowOverrides) {
+    const allOverrides = getCachedValue<{ [workflowId: string]: WorkflowOverrides }>(overridesKey, {});
+    allOverrides[workflowId] = overrides;
+    localStorage.setItem(overridesKey, JSON.stringify(allOverrides));
+}
+
+export function applyWorkflowOverrides(img2img: Img2Img, overrides: WorkflowOverrides) {
+    for (const title of Object.keys(overrides)) {
+        for (const input of Object.keys(overrides[title])) {
+            img2img.set_input(title, input, overrides[title][input]);
+        }
+    }
+}
@@ -1,9 +1,11 @@
 
 
 
-import { WebsocketHelper } from "./websocket";
+import { ExecutedOutput, ExecutionListener, WebsocketHelper } from "./websocket";
 import { ComfyFetcher } from "./comfyfetcher";
+import { ComfyBackend, getBackend } from "./backend";
 import { SelectedLora } from "./loras";
+import { supportsControlImage, supportsReferenceImages } from "./workflowlibrary";
 
 let defaultTransparentImage = "";
 
@@ -28,6 +30,36 @@ function getTransparentImage() {
     return defaultTransparentImage;
 }
 
+// where uploaded input images go, inside ComfyUI's input folder
+const uploadSubfolder = "smartdraw";
+
+// image type of base64 data, from its first bytes; undefined for placeholders
+// like the ones the bundled workflows ship with
+function encodedImageType(encoded: string): string | undefined {
+    if (encoded.startsWith("iVBORw0KGgo")) {
+        return "png";
+    }
+    if (encoded.startsWith("/9j/")) {
+        return "jpeg";
+    }
+    if (encoded.startsWith("UklGR")) {
+        return "webp";
+    }
+}
+
+function decodeImage(encoded: string, type: string): Blob {
+    const bytes = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: `image/${type}` });
+}
+
+// A prompt that only applies where its mask is set
+export interface RegionConditioning {
+    prompt: string;
+    weight: number;
+    // inpainting-style mask: transparent inside the region
+    encodedMask: string;
+}
+
 function getIds(workflow: any): any {
     const nameLookup: any = {};
     const ids = Object.keys(workflow);
@@ -40,40 +72,212 @@ function getIds(workflow: any): any {
 
 }
 
-export class Img2Img {
-    private client_id: string;
+// Shared plumbing for running an API-format workflow on the backend.
+// Nodes are addressed by their _meta.title.
+class ComfyWorkflow {
     private websocket_helper: WebsocketHelper;
-    private workflow: any;
-    private comfy_fetcher: ComfyFetcher;
-
-    private ids: any;
-    private backendHost: string;
-
-    constructor(workflowJSON: any) {
-        this.backendHost = localStorage.getItem("backend-host") || "localhost:8188";
+    protected workflow: any;
+    protected comfy_fetcher: ComfyFetcher;
+
+    protected ids: any;
+    protected backend: ComfyBackend;
+    private prompt_id: string | undefined;
+    private cancelled = false;
+    private cancelListener?: () => void;
+    private preview_listener?: (preview: Blob) => void;
+    private executing_listener?: (node: string) => void;
+
+    // runs on the main backend unless given one, e.g. by the backend pool
+    constructor(workflowJSON: any, backend: ComfyBackend = getBackend()) {
+        this.backend = backend;
         this.workflow = JSON.parse(JSON.stringify(workflowJSON));
-        this.client_id = Math.random().toString();
         this.ids = getIds(this.workflow);
-        this.websocket_helper = new WebsocketHelper(`ws://${this.backendHost}/ws?clientId=${this.client_id}`);
-        this.comfy_fetcher = new ComfyFetcher(`http://${this.backendHost}`)
+        this.websocket_helper = WebsocketHelper.forBackend(this.backend);
+        this.comfy_fetcher = new ComfyFetcher(this.backend)
     }
 
-    private node(title: string): any {
+    protected node(title: string): any {
         return this.workflow[this.id(title)];
     }
 
-    private id(title: string): string {
+    protected id(title: string): string {
         return this.ids[title];
     }
 
-    private clone(title: string, newTitle: string): any {
-        const result = JSON.parse(JSON.stringify(this.node(title)));
-        result._meta.title = newTitle;
-        this.ids[newTitle] = newTitle;
-        this.workflow[newTitle] = result;
-        return result;
+    // a copy of the workflow with everything set so far, as it will be (or was) submitted
+    get_workflow(): object {
+        return JSON.parse(JSON.stringify(this.workflow));
+    }
+
+    // sets any input by node title; overrides for nodes the workflow no longer has are ignored
+    set_input(title: string, input: string, value: number | string | boolean) {
+        if (this.node(title)) {
+            this.node(title).inputs[input] = value;
+        }
+    }
+
+    // called with each sampling preview the backend sends while the workflow runs
+    on_preview(listener: (preview: Blob) => void) {
+        this.preview_listener = listener;
+    }
+
+    // called with the title of each node as it starts executing
+    on_executing(listener: (node: string) => void) {
+        this.executing_listener = listener;
+    }
+
+    // Drops the prompt from the backend and rejects the pending run. If the prompt
+    // hasn't been submitted yet, it is cancelled as soon as the backend assigns it an id.
+    cancel() {
+        this.cancelled = true;
+        if (this.prompt_id) {
+            this.cancel_prompt(this.prompt_id);
+            this.websocket_helper.cancelWait(this.prompt_id);
+        }
+        if (this.cancelListener) {
+            this.cancelListener();
+        }
+    }
+
+    // the run is rejected either way, so a failure only leaves the prompt on the backend
+    private cancel_prompt(prompt_id: string) {
+        this.comfy_fetcher.cancel_prompt(prompt_id).catch((err) => {
+            console.error(`Failed to cancel prompt ${prompt_id}`, err);
+        });
+    }
+
+    // the inputs of other nodes that are linked to an output of this node, as [node id, output index]
+    private links_to(id: string): [string, number][] {
+        const links: [string, number][] = [];
+        for (const nodeId of Object.keys(this.workflow)) {
+            for (const value of Object.values(this.workflow[nodeId].inputs)) {
+                if (Array.isArray(value) && value[0] === id) {
+                    links.push(value as [string, number]);
+                }
+            }
+        }
+        return links;
     }
 
+    // Uploads the images of the ETN_LoadImageBase64 nodes and replaces those with
+    // stock nodes. Nodes only used for their mask become LoadImageMask on the alpha
+    // channel, which inverts it the same way; the rest become LoadImage, whose
+    // outputs match ETN_LoadImageBase64's. Masks go through /upload/image too:
+    // /upload/mask only replaces the alpha of an image that was uploaded before.
+    private async upload_images() {
+        // identical images, like an unset mask and a region mask, are uploaded once
+        const uploaded: { [encoded: string]: string } = {};
+        const prefix = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+        for (const id of Object.keys(this.workflow)) {
+            const node = this.workflow[id];
+            if (node.class_type !== "ETN_LoadImageBase64") {
+                continue;
+            }
+            const links = this.links_to(id);
+            if (links.length === 0) {
+                delete this.workflow[id];
+                continue;
+            }
+            // placeholders are only left in nodes the prompt won't execute,
+            // but LoadImage still needs an existing file
+            let encoded = `${node.inputs.image}`;
+            let type = encodedImageType(encoded);
+            if (!type) {
+                encoded = getTransparentImage();
+                type = "png";
+            }
+            if (!uploaded[encoded]) {
+                const filename = `${prefix}_${Object.keys(uploaded).length}.${type}`;
+                uploaded[encoded] = await this.comfy_fetcher.upload_image(
+                    decodeImage(encoded, type),
+                    filename,
+                    uploadSubfolder
+                );
+            }
+            if (links.every(link => link[1] === 1)) {
+                node.class_type = "LoadImageMask";
+                node.inputs = { image: uploaded[encoded], channel: "alpha" };
+                links.forEach(link => link[1] = 0);
+            } else {
+                node.class_type = "LoadImage";
+                node.inputs = { image: uploaded[encoded] };
+            }
+        }
+    }
+
+    // submits the workflow and resolves with the first output image as a data url
+    protected async submit(on_progress?: (progress: number) => void): Promise<string> {
+        const output = await this.execute(on_progress);
+        if (!output.images || output.images.length === 0) {
+            throw new Error("The workflow returned no image");
+        }
+        // get the image
+        return this.comfy_fetcher.fetch_image(output.images[0]);
+    }
+
+    // submits the workflow and resolves with the text its output node shows
+    protected async submit_for_text(on_progress?: (progress: number) => void): Promise<string> {
+        const output = await this.execute(on_progress);
+        if (!output.text) {
+            throw new Error("The workflow returned no text");
+        }
+        return output.text.join("\n");
+    }
+
+    // submits the workflow and resolves with the output of the node that finished it
+    private execute(on_progress?: (progress: number) => void): Promise<ExecutedOutput> {
+        return new Promise((resolve, reject) => {
+            if (this.cancelled) {
+                reject(new Error("Cancelled"));
+                return;
+            }
+            this.cancelListener = () => reject(new Error("Cancelled"));
+            const p = {
+                "prompt": this.workflow,
+                // progress and results are only sent to the client that submitted the prompt
+                "client_id": this.websocket_helper.clientId
+            };
+
+            // make sure we're listening before the prompt can complete,
+            // then submit the request and get the prompt_id from the response
+            this.websocket_helper.connect().then(async () => {
+                if (this.backend.imageTransport === "upload") {
+                    await this.upload_images();
+                }
+                return this.backend.request("/prompt", {
+                    method: "POST",
+                    body: JSON.stringify(p)
+                });
+            }).then(async response => {
+                const response_json = await response.json();
+                if (!response.ok) {
+                    throw new Error(response_json.error?.message || `Backend returned ${response.status}`);
+                }
+                const prompt_id = response_json["prompt_id"];
+                console.log("prompt_id: " + prompt_id);
+                this.prompt_id = prompt_id;
+                if (this.cancelled) {
+                    this.cancel_prompt(prompt_id);
+                    return;
+                }
+                // wait for the prompt to complete
+                const executing_listener = this.executing_listener;
+                const listener: ExecutionListener = {
+                    onProgress: on_progress,
+                    onPreview: this.preview_listener,
+                    // the backend reports node ids, our workflows address nodes by title
+                    onExecuting: executing_listener && (node_id => {
+                        const node = this.workflow[node_id];
+                        executing_listener(node ? node._meta?.title || node.class_type : node_id);
+                    })
+                };
+                resolve(await this.websocket_helper.waitForCompletion(prompt_id, listener));
+            }).catch(reject);
+        });
+    }
+}
+
+export class Img2Img extends ComfyWorkflow {
     set_seed(seed: number) {
         this.node("sampler").inputs.seed = seed;
     }
@@ -82,18 +286,57 @@ export class Img2Img {
         this.node("sampler").inputs.denoise = denoise;
     }
 
+    set_steps(steps: number) {
+        this.node("sampler").inputs.steps = steps;
+    }
+
+    supports_reference_images(): boolean {
+        return supportsReferenceImages(this.workflow);
+    }
+
     set_reference_images_weight(weight: number) {
         this.node("apply_ipadapter").inputs.weight = weight;
     }
 
+    supports_control_image(): boolean {
+        return supportsControlImage(this.workflow);
+    }
+
+    // strength scales the ControlNet's influence, start_percent and end_percent
+    // limit it to part of the sampling steps (0 = first step, 1 = last)
+    set_control_image(encoded_image: string, strength: number, start_percent: number, end_percent: number) {
+        this.node("load_control_image").inputs.image = encoded_image;
+        const apply_controlnet = this.node("apply_controlnet");
+        apply_controlnet.inputs.strength = strength;
+        apply_controlnet.inputs.start_percent = start_percent;
+        apply_controlnet.inputs.end_percent = end_percent;
+    }
+
     set_selected_model(model: string) {
-        this.node("load_sdxl_checkpoint").inputs.ckpt_name = model;
+        // imported workflows may not expose their checkpoint
+        if (this.node("load_sdxl_checkpoint")) {
+            this.node("load_sdxl_checkpoint").inputs.ckpt_name = model;
+        }
     }
 
-    set_reference_images(encodedImages: string[]) {
+    set_sampler(sampler_name: string) {
+        this.node("sampler").inputs.sampler_name = sampler_name;
+        if (this.node("refiner_sampler")) {
+            this.node("refiner_sampler").inputs.sampler_name = sampler_name;
+        }
+    }
+
+    set_scheduler(scheduler: string) {
+        this.node("sampler").inputs.scheduler = scheduler;
+        if (this.node("refiner_sampler")) {
+            this.node("refiner_sampler").inputs.scheduler = scheduler;
+        }
+    }
+
+    set_reference_images(referenceImages: string[]) {
         // reverse the order of the encoded images so that the first image provided
-        // has the highest weight
-        encodedImages.reverse();
+        // has the highest weight. Work on a copy, the caller may reuse the array
+        const encodedImages = [...referenceImages].reverse();
         let refImageCount = 1;
         this.node(`load_reference_image_${refImageCount}`).inputs.image = encodedImages.pop();
         if (encodedImages.length > 0) {
@@ -143,6 +386,8 @@ export class Img2Img {
                 0
             ];
         }
+        // keep whatever model the sampler was using (e.g. with the turbo lora) under the ip-adapter
+        this.node("apply_ipadapter").inputs.model = this.node("sampler").inputs.model;
         this.node("sampler").inputs.model = [
             this.id("apply_ipadapter"),
             0
@@ -156,126 +401,154 @@ export class Img2Img {
         console.log("set_reference_images complete. workflow: ", JSON.stringify(this.workflow, null, 2));
     }
 
+    // Chains the enabled loras, in order, between the model and clip that currently
+    // feed the sampler and prompts. Only consumers of those exact outputs are rewired,
+    // so loaders further up the graph (e.g. an LCM lora) stay where they are.
     set_selected_loras(selected_loras: SelectedLora[]) {
-        let loras = JSON.parse(JSON.stringify(selected_loras));
-        if (selected_loras.length > 0) {
-            let loraNumber = 0;
-            let lora = loras.pop();
-
-            const loraNodeName = `load_lora_${loraNumber}`;
-            this.clone("load_turbo_lora", loraNodeName);
-            this.node(loraNodeName).inputs.lora_name = lora?.name;
-            this.node(loraNodeName).inputs.strength_model = lora?.strength;
-            this.node(loraNodeName).inputs.strength_clip = lora?.strength;
-            this.node(loraNodeName).inputs.model = JSON.parse(JSON.stringify(
-                this.node("sampler").inputs.model
-            ));
-            this.node(loraNodeName).inputs.clip = [
-                this.id("load_sdxl_checkpoint"),
-                1
-            ];
-            this.node("sampler").inputs.model = [
-                this.id(loraNodeName),
-                0
-            ];
-            loraNumber++;
+        const loras = selected_loras.filter(lora => lora.enabled);
+        if (loras.length === 0) {
+            return;
         }
-    }
-
-    run(prompt: string, negativePrompt: string, encoded_image: string, encoded_mask?: string, on_progress?: (progress: number) => void): Promise<string> {
-        return new Promise((resolve) => {
-            console.log("running...", JSON.stringify(this.workflow, null, 2));
-            this.node("positive_prompt").inputs.text = prompt;
-            this.node("negative_prompt").inputs.text = negativePrompt;
-            this.node("load_source_image").inputs.image = encoded_image;
-            if (encoded_mask) {
-                this.node("load_mask").inputs.image = encoded_mask;
-            } else {
-                this.node("load_mask").inputs.image = getTransparentImage();
-            }
-            const p = {
-                "prompt": this.workflow,
-                "client_id": this.client_id
+        const modelSource = JSON.stringify(this.node("sampler").inputs.model);
+        const clipSource = JSON.stringify(this.node("positive_prompt").inputs.clip);
+        let model = JSON.parse(modelSource);
+        let clip = JSON.parse(clipSource);
+        loras.forEach((lora, i) => {
+            // workflows may already contain nodes titled load_lora_N
+            const loraNodeName = `selected_lora_${i}`;
+            this.workflow[loraNodeName] = {
+                inputs: {
+                    lora_name: lora.name,
+                    strength_model: lora.modelStrength,
+                    strength_clip: lora.clipStrength,
+                    model,
+                    clip
+                },
+                class_type: "LoraLoader",
+                _meta: {
+                    title: loraNodeName
+                }
             };
-            const data = JSON.stringify(p);
-            const req = new Request(`http://${this.backendHost}/prompt`, {
-                method: "POST",
-                body: data
-            });
-
-            // submit the request and get the prompt_id from the response
-            fetch(req).then(response => {
-                response.json().then(response_json => {
-                    const prompt_id = response_json["prompt_id"];
-                    console.log("prompt_id: " + prompt_id);
-                    // wait for the prompt to complete
-                    const handle_websocket_completion = async (output: any) => {
-                        // get the image
-                        const dataUrl = await this.comfy_fetcher.fetch_image(output["images"][0]["filename"]);
-                        // call the callback with the image
-                        resolve(dataUrl);
-                    };
-                    this.websocket_helper.waitForCompletion(prompt_id, handle_websocket_completion, on_progress);
-                });
-            });
+            this.ids[loraNodeName] = loraNodeName;
+            model = [this.id(loraNodeName), 0];
+            clip = [this.id(loraNodeName), 1];
         });
-
+        for (const title of ["sampler", "refiner_sampler"]) {
+            const node = this.node(title);
+            if (node && JSON.stringify(node.inputs.model) === modelSource) {
+                node.inputs.model = model;
+            }
+        }
+        for (const title of ["positive_prompt", "negative_prompt"]) {
+            const node = this.node(title);
+            if (node && JSON.stringify(node.inputs.clip) === clipSource) {
+                node.inputs.clip = clip;
+            }
+        }
     }
-}
 
-export class Upscale {
-    private client_id: string;
-    private websocket_helper: WebsocketHelper;
-    private workflow: any;
-    private comfy_fetcher: ComfyFetcher;
-    private ids: any;
-    private backendHost: string;
-
-    constructor(workflowJSON: any) {
-        this.backendHost = localStorage.getItem("backend-host") || "localhost:8188";
-        this.workflow = JSON.parse(JSON.stringify(workflowJSON));
-        this.client_id = Math.random().toString();
-        this.ids = getIds(this.workflow);
-        this.websocket_helper = new WebsocketHelper(`ws://${this.backendHost}/ws?clientId=${this.client_id}`);
-        this.comfy_fetcher = new ComfyFetcher(`http://${this.backendHost}`)
+    // Adds a masked prompt per region and combines them with the positive prompt.
+    // Everything that consumed the positive prompt is rewired to the combination,
+    // like set_reference_images does for the ip-adapter.
+    set_prompt_regions(regions: RegionConditioning[]) {
+        if (regions.length === 0) {
+            return;
+        }
+        const positiveSource = JSON.stringify([this.id("positive_prompt"), 0]);
+        let conditioning: [string, number] = [this.id("positive_prompt"), 0];
+        const added: string[] = [];
+        regions.forEach((region, i) => {
+            const promptId = `region_prompt_${i + 1}`;
+            const maskId = `load_region_mask_${i + 1}`;
+            const maskedId = `region_conditioning_${i + 1}`;
+            const combineId = `combine_region_conditioning_${i + 1}`;
+            this.workflow[promptId] = {
+                inputs: {
+                    text: region.prompt,
+                    clip: this.node("positive_prompt").inputs.clip
+                },
+                class_type: "CLIPTextEncode",
+                _meta: {
+                    title: promptId
+                }
+            };
+            this.workflow[maskId] = {
+                inputs: {
+                    image: region.encodedMask
+                },
+                class_type: "ETN_LoadImageBase64",
+                _meta: {
+                    title: maskId
+                }
+            };
+            this.workflow[maskedId] = {
+                inputs: {
+                    strength: region.weight,
+                    set_cond_area: "default",
+                    conditioning: [promptId, 0],
+                    // output 1 of ETN_LoadImageBase64 is the mask
+                    mask: [maskId, 1]
+                },
+                class_type: "ConditioningSetMask",
+                _meta: {
+                    title: maskedId
+                }
+            };
+            this.workflow[combineId] = {
+                inputs: {
+                    conditioning_1: conditioning,
+                    conditioning_2: [maskedId, 0]
+                },
+                class_type: "ConditioningCombine",
+                _meta: {
+                    title: combineId
+                }
+            };
+            for (const id of [promptId, maskId, maskedId, combineId]) {
+                this.ids[id] = id;
+                added.push(id);
+            }
+            conditioning = [combineId, 0];
+        });
+        for (const id of Object.keys(this.workflow)) {
+            if (added.includes(id)) {
+                continue;
+            }
+            const inputs = this.workflow[id].inputs;
+            for (const input of Object.keys(inputs)) {
+                if (JSON.stringify(inputs[input]) === positiveSource) {
+                    inputs[input] = conditioning;
+                }
+            }
+        }
     }
 
-    private node(title: string): any {
-        return this.workflow[this.id(title)];
+    run(prompt: string, negativePrompt: string, encoded_image: string, encoded_mask?: string, on_progress?: (progress: number) => void): Promise<string> {
+        console.log("running...", JSON.stringify(this.workflow, null, 2));
+        this.node("positive_prompt").inputs.text = prompt;
+        this.node("negative_prompt").inputs.text = negativePrompt;
+        this.node("load_source_image").inputs.image = encoded_image;
+        if (encoded_mask) {
+            this.node("load_mask").inputs.image = encoded_mask;
+        } else {
+            this.node("load_mask").inputs.image = getTransparentImage();
+        }
+        return this.submit(on_progress);
     }
+}
 
-    private id(title: string): string {
-        return this.ids[title];
+export class Upscale extends ComfyWorkflow {
+    run(encoded_image: string, on_progress?: (progress: number) => void): Promise<string> {
+        this.node("load_source_image").inputs.image = encoded_image;
+        return this.submit(on_progress);
     }
+}
 
+// Describes an image through a captioning workflow whose output node
+// shows the caption as text, like ShowText
+export class Interrogate extends ComfyWorkflow {
     run(encoded_image: string, on_progress?: (progress: number) => void): Promise<string> {
-        return new Promise((resolve) => {
-            this.node("load_source_image").inputs.image = encoded_image;
-            const p = {
-                "prompt": this.workflow,
-                "client_id": this.client_id
-            };
-            const data = JSON.stringify(p);
-            const req = new Request(`http://${this.backendHost}/prompt`, {
-                method: "POST",
-                body: data
-            });
-
-            // submit the request and get the prompt_id from the response
-            fetch(req).then(response => {
-                response.json().then(response_json => {
-                    const prompt_id = response_json["prompt_id"];
-                    console.log("prompt_id: " + prompt_id);
-                    // wait for the prompt to complete
-                    const handle_websocket_completion = async (output: any) => {
-                        // get the image
-                        const dataUrl = await this.comfy_fetcher.fetch_image(output["images"][0]["filename"]);
-                        // call the callback with the image
-                        resolve(dataUrl);
-                    };
-                    this.websocket_helper.waitForCompletion(prompt_id, handle_websocket_completion, on_progress);
-                });
-            });
-        })
+        this.node("load_source_image").inputs.image = encoded_image;
+        return this.submit_for_text(on_progress);
     }
-}
\ No newline at end of file
+}